@@ -6,22 +6,56 @@ import {
   updateImportStatus,
   forceImport,
   forceSyncSingleRepo,
-  startQuickCheckLoop,
+  getRepoRequestContext,
+  getRepoBranchesCached,
+  getRepoFileTree,
+  markNotificationRead,
+  removeHostRecords,
+  ensureSyncAlarms,
+  handleSyncAlarm,
+  getSyncSchedule,
   setQuickCheckBrowsingMode,
   setQuickCheckIdleMode,
 } from '@/src/import/engine';
-import { getLastRateLimit } from '@/src/api/github';
+import { getLastRateLimit, getRequestPause } from '@/src/api/github';
 import {
   getAllRepos,
+  getRepo,
   getIssuesByRepo,
   getPullRequestsByRepo,
+  getDiscussionsByRepo,
+  getReleasesByRepo,
+  getMilestonesByRepo,
+  getWorkflowRunsByRepo,
+  getAllGists,
+  getAllProjects,
+  getProject,
+  getIssueByKey,
+  getPullRequestByKey,
+  getAllNotifications,
   recordVisit,
   setRepoIndexed,
 } from '@/src/storage/db';
-import { useUnifiedSearch } from '@/src/composables/useUnifiedSearch';
+import {
+  useUnifiedSearch,
+  buildProjectItemResults,
+  buildNotificationResults,
+} from '@/src/composables/useUnifiedSearch';
 import type { SearchableEntity, SearchResultItem } from '@/src/composables/useUnifiedSearch';
+import type { IssueRecord, PullRequestRecord } from '@/src/types';
 import { useSearchCache } from '@/src/composables/useSearchCache';
 import { debugLog } from '@/src/utils/debug';
+import { searchFullText } from '@/src/utils/fullText';
+import { recordKey } from '@/src/utils/recordKey';
+import { getImportPreferences } from '@/src/storage/chrome';
+
+/**
+ * Look the query up in the full-text index, when indexing bodies is enabled
+ */
+async function getFullTextMatches(query: string): Promise<Map<string, string> | undefined> {
+  const { importBodies } = await getImportPreferences();
+  return importBodies && query.trim() ? searchFullText(query) : undefined;
+}
 
 /**
  * Extract top 2 contributors (besides current user) from results
@@ -35,7 +69,7 @@ function extractContributors(
   const userCounts = new Map<string, number>();
 
   results.forEach((item) => {
-    if (item.type === 'pr' || item.type === 'issue') {
+    if (item.type === 'pr' || item.type === 'issue' || item.type === 'discussion') {
       const author = item.user?.login;
       if (author && author !== currentUsername) {
         userCounts.set(author, (userCounts.get(author) || 0) + 1);
@@ -60,6 +94,22 @@ export default defineBackground(() => {
   let lastSyncProgressUpdate = 0;
   const SYNC_PROGRESS_THROTTLE_MS = 2000;
 
+  // Imports running in this worker, aborted by CANCEL_IMPORT
+  const importControllers = new Set<AbortController>();
+
+  /**
+   * Run an import with an abort signal that CANCEL_IMPORT triggers
+   */
+  async function withImportSignal(task: (signal: AbortSignal) => Promise<void>): Promise<void> {
+    const controller = new AbortController();
+    importControllers.add(controller);
+    try {
+      await task(controller.signal);
+    } finally {
+      importControllers.delete(controller);
+    }
+  }
+
   /**
    * Handle import progress events - clear cache and notify tabs
    */
@@ -95,41 +145,53 @@ export default defineBackground(() => {
     });
   }
 
-  // Initialize sync system
+  // Scheduled syncs: alarms wake the service worker up again after it has been suspended
+  browser.alarms.onAlarm.addListener((alarm) => {
+    withImportSignal((signal) => handleSyncAlarm(alarm.name, handleImportProgress, signal)).catch(
+      (err) => {
+        console.error(`[Background] Scheduled sync "${alarm.name}" failed:`, err);
+      },
+    );
+  });
+
+  // Initialize sync system (runs on every worker start, not only on install)
   (async () => {
-    // Clear any stuck sync state from previous session (e.g., hot-reload, extension restart)
+    // A running import died with the previous worker (e.g., suspended, hot-reload, extension restart)
     const status = await getImportStatus();
     if (status.isRunning) {
       console.warn('[Background] Clearing stuck sync state from previous session...');
       await updateImportStatus({
         isRunning: false,
-        lastError: 'Extension reloaded - sync state reset',
+        lastError: 'Extension reloaded - sync interrupted',
       });
     }
 
-    // Check if token exists before running initial sync
-    const { getGitHubToken } = await import('@/src/storage/chrome');
+    const firstStart = await ensureSyncAlarms();
+    if (!firstStart && !status.isRunning) {
+      return; // The alarms take it from here
+    }
+
+    // Check if a token exists (any github.com account or enterprise host) before running initial sync
+    const { getGitHubToken, getGitHubAccounts, getEnterpriseHosts } =
+      await import('@/src/storage/chrome');
     const token = await getGitHubToken();
+    const accounts = await getGitHubAccounts();
+    const enterpriseHosts = await getEnterpriseHosts();
 
-    if (!token) {
+    if (!token && accounts.length === 0 && !enterpriseHosts.some((host) => host.token)) {
       console.warn(
         '[Background] No GitHub token found - skipping initial sync. Sync will start when token is configured.',
       );
-      // Still start quick-check loop (it will skip checks until token is available)
-      startQuickCheckLoop();
       return;
     }
 
-    // Run initial sync
+    // Run initial sync (or resume the interrupted one) rather than waiting for the import alarm
     console.warn('[Background] Starting initial sync...');
     try {
-      await runImport(handleImportProgress);
-      console.warn('[Background] Initial sync completed, starting quick-check loop...');
-      startQuickCheckLoop();
+      await withImportSignal((signal) => runImport(handleImportProgress, signal, 'startup'));
+      console.warn('[Background] Initial sync completed');
     } catch (err) {
       console.error('[Background] Initial sync failed:', err);
-      // Still start quick-check even if initial sync fails
-      startQuickCheckLoop();
     }
   })();
 
@@ -167,6 +229,18 @@ export default defineBackground(() => {
             break;
           }
 
+          case MessageType.GET_SYNC_PAUSE: {
+            const pause = await getRequestPause();
+            sendResponse({ success: true, data: pause });
+            break;
+          }
+
+          case MessageType.GET_SYNC_SCHEDULE: {
+            const schedule = await getSyncSchedule();
+            sendResponse({ success: true, data: schedule });
+            break;
+          }
+
           case MessageType.GET_ALL_REPOS: {
             const repos = await getAllRepos();
             sendResponse({ success: true, data: repos });
@@ -174,38 +248,134 @@ export default defineBackground(() => {
           }
 
           case MessageType.GET_ISSUES_BY_REPO: {
-            const repoId = message.payload as number;
-            const issues = await getIssuesByRepo(repoId);
+            const repoKey = message.payload as string;
+            const issues = await getIssuesByRepo(repoKey);
             sendResponse({ success: true, data: issues });
             break;
           }
 
           case MessageType.GET_PRS_BY_REPO: {
-            const repoId = message.payload as number;
-            const prs = await getPullRequestsByRepo(repoId);
+            const repoKey = message.payload as string;
+            const prs = await getPullRequestsByRepo(repoKey);
             sendResponse({ success: true, data: prs });
             break;
           }
 
+          case MessageType.GET_DISCUSSIONS_BY_REPO: {
+            const repoKey = message.payload as string;
+            const discussions = await getDiscussionsByRepo(repoKey);
+            sendResponse({ success: true, data: discussions });
+            break;
+          }
+
+          case MessageType.GET_BRANCHES_BY_REPO: {
+            const repoKey = message.payload as string;
+            const branches = await getRepoBranchesCached(repoKey);
+            sendResponse({ success: true, data: branches });
+            break;
+          }
+
+          case MessageType.GET_PROJECT_ITEMS: {
+            const projectKey = message.payload as string;
+            const project = await getProject(projectKey);
+            if (!project) {
+              sendResponse({ success: true, data: [] });
+              break;
+            }
+
+            // Link items to the issues and PRs already in the index (same database IDs)
+            const linkedIssues = new Map<string, IssueRecord>();
+            const linkedPrs = new Map<string, PullRequestRecord>();
+            await Promise.all(
+              project.items.map(async (item) => {
+                if (item.content_id === null) return;
+                const key = recordKey(project.host, item.content_id);
+                if (item.type === 'issue') {
+                  const issue = await getIssueByKey(key);
+                  if (issue) linkedIssues.set(issue.key, issue);
+                } else if (item.type === 'pull_request') {
+                  const pr = await getPullRequestByKey(key);
+                  if (pr) linkedPrs.set(pr.key, pr);
+                }
+              }),
+            );
+
+            const items = buildProjectItemResults(project, linkedIssues, linkedPrs);
+            sendResponse({ success: true, data: items });
+            break;
+          }
+
+          case MessageType.GET_FILE_TREE: {
+            const repoKey = message.payload as string;
+            const fileTree = await getRepoFileTree(repoKey);
+            sendResponse({ success: true, data: fileTree });
+            break;
+          }
+
+          case MessageType.GET_NOTIFICATIONS: {
+            const notifications = await getAllNotifications();
+
+            // Link threads to the issues and PRs already in the index
+            const linkedIssues = new Map<string, IssueRecord>();
+            const linkedPrs = new Map<string, PullRequestRecord>();
+            await Promise.all(
+              notifications.map(async (notification) => {
+                if (notification.issue_key !== undefined) {
+                  const issue = await getIssueByKey(notification.issue_key);
+                  if (issue) linkedIssues.set(issue.key, issue);
+                } else if (notification.pr_key !== undefined) {
+                  const pr = await getPullRequestByKey(notification.pr_key);
+                  if (pr) linkedPrs.set(pr.key, pr);
+                }
+              }),
+            );
+
+            const items = buildNotificationResults(notifications, linkedIssues, linkedPrs);
+            sendResponse({ success: true, data: items });
+            break;
+          }
+
+          case MessageType.MARK_NOTIFICATION_READ: {
+            const notificationKey = message.payload as string;
+            await markNotificationRead(notificationKey);
+            sendResponse({ success: true });
+            break;
+          }
+
           case MessageType.FORCE_IMPORT: {
-            const payload = message.payload as { repoName?: string } | undefined;
+            const payload = message.payload as { repoName?: string; host?: string } | undefined;
             if (payload?.repoName) {
               // Single repo sync
-              await forceSyncSingleRepo(payload.repoName, handleImportProgress);
+              await withImportSignal((signal) =>
+                forceSyncSingleRepo(payload.repoName!, handleImportProgress, payload.host, signal),
+              );
             } else {
               // Full sync
-              await forceImport(handleImportProgress);
+              await withImportSignal((signal) => forceImport(handleImportProgress, signal));
+            }
+            sendResponse({ success: true });
+            break;
+          }
+
+          case MessageType.CANCEL_IMPORT: {
+            console.warn(`[Background] Cancelling ${importControllers.size} running import(s)`);
+            importControllers.forEach((controller) => controller.abort());
+
+            // Nothing to abort in this worker: the running flag is left over from a killed one
+            const status = await getImportStatus();
+            if (importControllers.size === 0 && status.isRunning) {
+              await updateImportStatus({ isRunning: false, lastError: 'Sync cancelled' });
             }
             sendResponse({ success: true });
             break;
           }
 
           case MessageType.RECORD_VISIT: {
-            const { type, entityId } = message.payload as {
-              type: 'repo' | 'issue' | 'pr';
-              entityId: number;
+            const { type, entityKey } = message.payload as {
+              type: 'repo' | 'issue' | 'pr' | 'discussion' | 'release' | 'workflow_run' | 'gist';
+              entityKey: string;
             };
-            await recordVisit(type, entityId);
+            await recordVisit(type, entityKey);
             // Clear first result cache
             await clearFirstResultCache();
             sendResponse({ success: true });
@@ -213,23 +383,23 @@ export default defineBackground(() => {
           }
 
           case MessageType.SET_REPO_INDEXED: {
-            const { repoId, indexed } = message.payload as {
-              repoId: number;
+            const { repoKey, indexed } = message.payload as {
+              repoKey: string;
               indexed: boolean;
             };
-            await setRepoIndexed(repoId, indexed);
+            await setRepoIndexed(repoKey, indexed);
             sendResponse({ success: true });
             break;
           }
 
           case MessageType.SET_QUICK_CHECK_BROWSING: {
-            setQuickCheckBrowsingMode();
+            await setQuickCheckBrowsingMode();
             sendResponse({ success: true });
             break;
           }
 
           case MessageType.SET_QUICK_CHECK_IDLE: {
-            setQuickCheckIdleMode();
+            await setQuickCheckIdleMode();
             sendResponse({ success: true });
             break;
           }
@@ -251,18 +421,23 @@ export default defineBackground(() => {
 
             const entities: SearchableEntity[] = await Promise.all(
               indexedRepos.map(async (repo) => {
-                const [issues, prs] = await Promise.all([
-                  getIssuesByRepo(repo.id),
-                  getPullRequestsByRepo(repo.id),
-                ]);
-                return { repo, issues, prs };
+                const [issues, prs, discussions, releases, milestones, workflowRuns] =
+                  await Promise.all([
+                    getIssuesByRepo(repo.key),
+                    getPullRequestsByRepo(repo.key),
+                    getDiscussionsByRepo(repo.key),
+                    getReleasesByRepo(repo.key),
+                    getMilestonesByRepo(repo.key),
+                    getWorkflowRunsByRepo(repo.key),
+                  ]);
+                return { repo, issues, prs, discussions, releases, milestones, workflowRuns };
               }),
             );
 
             // Use useUnifiedSearch to get sorted results
             const { searchResults, setEntities } = useUnifiedSearch(currentUsername);
-            await setEntities(entities);
-            const results = searchResults.value(query);
+            await setEntities(entities, await getAllGists(), await getAllProjects());
+            const results = searchResults.value(query, await getFullTextMatches(query));
 
             // Save small caches for instant display (only for empty query)
             // Cache top 2 results (for quick-switcher - frontend chooses based on current repo)
@@ -298,18 +473,23 @@ export default defineBackground(() => {
 
             const entities: SearchableEntity[] = await Promise.all(
               indexedRepos.map(async (repo) => {
-                const [issues, prs] = await Promise.all([
-                  getIssuesByRepo(repo.id),
-                  getPullRequestsByRepo(repo.id),
-                ]);
-                return { repo, issues, prs };
+                const [issues, prs, discussions, releases, milestones, workflowRuns] =
+                  await Promise.all([
+                    getIssuesByRepo(repo.key),
+                    getPullRequestsByRepo(repo.key),
+                    getDiscussionsByRepo(repo.key),
+                    getReleasesByRepo(repo.key),
+                    getMilestonesByRepo(repo.key),
+                    getWorkflowRunsByRepo(repo.key),
+                  ]);
+                return { repo, issues, prs, discussions, releases, milestones, workflowRuns };
               }),
             );
 
             // Use useUnifiedSearch to get sorted results
             const { searchResults, setEntities } = useUnifiedSearch(currentUsername);
-            await setEntities(entities);
-            const results = searchResults.value(query);
+            await setEntities(entities, await getAllGists(), await getAllProjects());
+            const results = searchResults.value(query, await getFullTextMatches(query));
 
             // Save small caches for instant display (only for empty query)
             // Cache top 2 results (for quick-switcher - frontend chooses based on current repo)
@@ -349,25 +529,30 @@ export default defineBackground(() => {
           }
 
           case MessageType.FETCH_AND_SAVE_PR: {
-            const { owner, repo, prNumber, repoId } = message.payload as {
+            const { owner, repo, prNumber, repoKey, host } = message.payload as {
               owner: string;
               repo: string;
               prNumber: number;
-              repoId: number;
+              repoKey: string;
+              host?: string;
             };
 
             try {
               const { getPullRequest } = await import('@/src/api/github');
               const { savePullRequest } = await import('@/src/storage/db');
 
-              // Fetch PR from GitHub
-              const pr = await getPullRequest(owner, repo, prNumber);
+              // Fetch PR from GitHub with an account that can see the repo
+              const storedRepo = await getRepo(repoKey);
+              const ctx = storedRepo ? await getRepoRequestContext(storedRepo) : { host };
+              ctx.priority = 'high'; // The user is looking at it right now
+              const pr = await getPullRequest(owner, repo, prNumber, ctx);
 
               // Create PR record with merged field computed
               const prRecord = {
                 ...pr,
+                key: recordKey(host, pr.id),
                 merged: pr.merged_at !== null,
-                repo_id: repoId,
+                repo_key: repoKey,
                 last_fetched_at: Date.now(),
               };
 
@@ -387,24 +572,29 @@ export default defineBackground(() => {
           }
 
           case MessageType.FETCH_AND_SAVE_ISSUE: {
-            const { owner, repo, issueNumber, repoId } = message.payload as {
+            const { owner, repo, issueNumber, repoKey, host } = message.payload as {
               owner: string;
               repo: string;
               issueNumber: number;
-              repoId: number;
+              repoKey: string;
+              host?: string;
             };
 
             try {
               const { getIssue } = await import('@/src/api/github');
               const { saveIssue } = await import('@/src/storage/db');
 
-              // Fetch issue from GitHub
-              const issue = await getIssue(owner, repo, issueNumber);
+              // Fetch issue from GitHub with an account that can see the repo
+              const storedRepo = await getRepo(repoKey);
+              const ctx = storedRepo ? await getRepoRequestContext(storedRepo) : { host };
+              ctx.priority = 'high'; // The user is looking at it right now
+              const issue = await getIssue(owner, repo, issueNumber, ctx);
 
               // Create issue record
               const issueRecord = {
                 ...issue,
-                repo_id: repoId,
+                key: recordKey(host, issue.id),
+                repo_key: repoKey,
                 last_fetched_at: Date.now(),
               };
 
@@ -428,7 +618,9 @@ export default defineBackground(() => {
           case MessageType.TOKEN_SAVED: {
             console.warn('[Background] Token saved - triggering initial sync...');
             try {
-              await forceImport(handleImportProgress);
+              await withImportSignal((signal) =>
+                forceImport(handleImportProgress, signal, 'token_saved'),
+              );
               console.warn('[Background] Initial sync after token save completed');
               sendResponse({ success: true });
             } catch (error) {
@@ -441,6 +633,14 @@ export default defineBackground(() => {
             break;
           }
 
+          case MessageType.REMOVE_HOST_RECORDS: {
+            const host = message.payload as string;
+            const removedRepos = await removeHostRecords(host);
+            await clearFirstResultCache();
+            sendResponse({ success: true, data: removedRepos });
+            break;
+          }
+
           case MessageType.OPEN_OPTIONS_PAGE: {
             await browser.runtime.openOptionsPage();
             sendResponse({ success: true });
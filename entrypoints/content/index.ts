@@ -4,13 +4,31 @@ import { MessageType } from '@/src/messages/types';
 import type { ExtensionMessage } from '@/src/messages/types';
 import type { SearchResultItem } from '@/src/composables/useUnifiedSearch';
 import { debugWarn, initDebugMode } from '@/src/utils/debug';
+import { recordKey } from '@/src/utils/recordKey';
 
 /**
  * Detect what type of GitHub page we're on and record visit via background worker
  */
-async function detectAndRecordVisit() {
+async function detectAndRecordVisit(enterpriseHost?: string) {
   const path = window.location.pathname;
 
+  // Gists live outside of any repo: on gist.github.com (/owner/<id> or /<id>), and under /gist on
+  // enterprise hosts (/gist/owner/<id> or /gist/<id>)
+  const onGistHost = window.location.hostname === 'gist.github.com';
+  if (onGistHost || (enterpriseHost && path.startsWith('/gist/'))) {
+    const gistMatch = path.match(
+      onGistHost ? /^\/(?:[^/]+\/)?([0-9a-f]{20,})/ : /^\/gist\/(?:[^/]+\/)?([0-9a-f]{20,})/,
+    );
+    if (gistMatch) {
+      await debugWarn(`[Git Look-Around] Recording visit to gist ${gistMatch[1]}`);
+      await browser.runtime.sendMessage({
+        type: MessageType.RECORD_VISIT,
+        payload: { type: 'gist', entityKey: recordKey(enterpriseHost, gistMatch[1]) },
+      });
+    }
+    return;
+  }
+
   // Match any page within a repo: /owner/repo or /owner/repo/anything
   // Excludes special GitHub pages like /settings, /notifications, /explore, etc.
   const repoMatch = path.match(/^\/([^/]+)\/([^/]+)/);
@@ -49,11 +67,14 @@ async function detectAndRecordVisit() {
   const fullName = `${owner}/${repo}`;
   await debugWarn(`[Git Look-Around] On repo: ${fullName}`);
 
-  // Check if we're on a PR or Issue page
+  // Check if we're on a PR, Issue, Discussion, Release or workflow run page
   const prMatch = path.match(/^\/[^/]+\/[^/]+\/pull\/(\d+)/);
   const issueMatch = path.match(/^\/[^/]+\/[^/]+\/issues\/(\d+)/);
+  const discussionMatch = path.match(/^\/[^/]+\/[^/]+\/discussions\/(\d+)/);
+  const workflowRunMatch = path.match(/^\/[^/]+\/[^/]+\/actions\/runs\/(\d+)/);
+  const releaseMatch = path.match(/^\/[^/]+\/[^/]+\/releases\/tag\/([^/?#]+)/);
 
-  // Ask background worker for all repos to find the ID
+  // Ask background worker for all repos to find the key
   try {
     const response = await browser.runtime.sendMessage({
       type: MessageType.GET_ALL_REPOS,
@@ -61,16 +82,19 @@ async function detectAndRecordVisit() {
 
     if (response.success && response.data) {
       const repos = response.data;
-      const repoRecord = repos.find((r: { full_name: string }) => r.full_name === fullName);
+      const repoRecord = repos.find(
+        (r: { full_name: string; host?: string }) =>
+          r.full_name === fullName && r.host === enterpriseHost,
+      );
 
       if (repoRecord) {
         // Always record repo visit
         await debugWarn(
-          `[Git Look-Around] Recording visit to repo ${fullName} (ID: ${repoRecord.id})`,
+          `[Git Look-Around] Recording visit to repo ${fullName} (key: ${repoRecord.key})`,
         );
         await browser.runtime.sendMessage({
           type: MessageType.RECORD_VISIT,
-          payload: { type: 'repo', entityId: repoRecord.id },
+          payload: { type: 'repo', entityKey: repoRecord.key },
         });
 
         // If on PR page, also record PR visit
@@ -78,7 +102,7 @@ async function detectAndRecordVisit() {
           const prNumber = parseInt(prMatch[1], 10);
           const prsResponse = await browser.runtime.sendMessage({
             type: MessageType.GET_PRS_BY_REPO,
-            payload: repoRecord.id,
+            payload: repoRecord.key,
           });
 
           if (prsResponse.success && prsResponse.data) {
@@ -91,7 +115,7 @@ async function detectAndRecordVisit() {
               );
               const fetchResponse = await browser.runtime.sendMessage({
                 type: MessageType.FETCH_AND_SAVE_PR,
-                payload: { owner, repo, prNumber, repoId: repoRecord.id },
+                payload: { owner, repo, prNumber, repoKey: repoRecord.key, host: enterpriseHost },
               });
 
               if (fetchResponse.success && fetchResponse.data) {
@@ -101,11 +125,11 @@ async function detectAndRecordVisit() {
 
             if (pr) {
               await debugWarn(
-                `[Git Look-Around] Recording visit to PR #${prNumber} (ID: ${pr.id})`,
+                `[Git Look-Around] Recording visit to PR #${prNumber} (key: ${pr.key})`,
               );
               await browser.runtime.sendMessage({
                 type: MessageType.RECORD_VISIT,
-                payload: { type: 'pr', entityId: pr.id },
+                payload: { type: 'pr', entityKey: pr.key },
               });
             }
           }
@@ -116,7 +140,7 @@ async function detectAndRecordVisit() {
           const issueNumber = parseInt(issueMatch[1], 10);
           const issuesResponse = await browser.runtime.sendMessage({
             type: MessageType.GET_ISSUES_BY_REPO,
-            payload: repoRecord.id,
+            payload: repoRecord.key,
           });
 
           if (issuesResponse.success && issuesResponse.data) {
@@ -131,7 +155,13 @@ async function detectAndRecordVisit() {
               );
               const fetchResponse = await browser.runtime.sendMessage({
                 type: MessageType.FETCH_AND_SAVE_ISSUE,
-                payload: { owner, repo, issueNumber, repoId: repoRecord.id },
+                payload: {
+                  owner,
+                  repo,
+                  issueNumber,
+                  repoKey: repoRecord.key,
+                  host: enterpriseHost,
+                },
               });
 
               if (fetchResponse.success && fetchResponse.data) {
@@ -141,16 +171,62 @@ async function detectAndRecordVisit() {
 
             if (issue) {
               await debugWarn(
-                `[Git Look-Around] Recording visit to Issue #${issueNumber} (ID: ${issue.id})`,
+                `[Git Look-Around] Recording visit to Issue #${issueNumber} (key: ${issue.key})`,
               );
               await browser.runtime.sendMessage({
                 type: MessageType.RECORD_VISIT,
-                payload: { type: 'issue', entityId: issue.id },
+                payload: { type: 'issue', entityKey: issue.key },
               });
             }
           }
         }
 
+        // If on Discussion page, also record Discussion visit
+        // (no on-demand fetch: discussions are only listed via GraphQL during import)
+        if (discussionMatch) {
+          const discussionNumber = parseInt(discussionMatch[1], 10);
+          const discussionsResponse = await browser.runtime.sendMessage({
+            type: MessageType.GET_DISCUSSIONS_BY_REPO,
+            payload: repoRecord.key,
+          });
+
+          const discussion = discussionsResponse.success
+            ? discussionsResponse.data?.find(
+                (d: { number: number }) => d.number === discussionNumber,
+              )
+            : undefined;
+
+          if (discussion) {
+            await debugWarn(
+              `[Git Look-Around] Recording visit to Discussion #${discussionNumber} (key: ${discussion.key})`,
+            );
+            await browser.runtime.sendMessage({
+              type: MessageType.RECORD_VISIT,
+              payload: { type: 'discussion', entityKey: discussion.key },
+            });
+          }
+        }
+
+        // If on Release page, also record Release visit (a missing key is ignored by the background)
+        if (releaseMatch) {
+          const tagName = decodeURIComponent(releaseMatch[1]);
+          await debugWarn(`[Git Look-Around] Recording visit to Release ${tagName}`);
+          await browser.runtime.sendMessage({
+            type: MessageType.RECORD_VISIT,
+            payload: { type: 'release', entityKey: `${repoRecord.key}/${tagName}` },
+          });
+        }
+
+        // If on a workflow run page, also record the run visit (the URL carries the run ID)
+        if (workflowRunMatch) {
+          const runId = parseInt(workflowRunMatch[1], 10);
+          await debugWarn(`[Git Look-Around] Recording visit to workflow run ${runId}`);
+          await browser.runtime.sendMessage({
+            type: MessageType.RECORD_VISIT,
+            payload: { type: 'workflow_run', entityKey: recordKey(enterpriseHost, runId) },
+          });
+        }
+
         await debugWarn(`[Git Look-Around] Visit recorded successfully`);
       } else {
         await debugWarn(
@@ -203,18 +279,22 @@ export default defineContentScript({
   matches: ['*://*/*'], // Match all sites initially, will filter in main()
   async main(_ctx) {
     // Check if we should run on this page based on user preferences
-    const { getHotkeyPreferences } = await import('@/src/storage/chrome');
+    const { getHotkeyPreferences, getEnterpriseHosts } = await import('@/src/storage/chrome');
     const hotkeyPrefs = await getHotkeyPreferences();
 
     const currentHost = window.location.host; // includes port if non-standard
     const currentHostname = window.location.hostname;
+    const enterpriseHost = (await getEnterpriseHosts()).find(
+      (h) => h.webHost === currentHost || h.webHost === currentHostname,
+    )?.webHost;
+    const onGitHub = isGitHubHost(currentHostname) || enterpriseHost !== undefined;
     let shouldRun = false;
 
     if (hotkeyPrefs.mode === 'github-only') {
-      shouldRun = isGitHubHost(currentHostname);
+      shouldRun = onGitHub;
     } else if (hotkeyPrefs.mode === 'custom-hosts') {
       shouldRun =
-        isGitHubHost(currentHostname) ||
+        onGitHub ||
         hotkeyPrefs.customHosts.some((pattern) =>
           matchesHostPattern(pattern, currentHostname, currentHost),
         );
@@ -248,7 +328,7 @@ export default defineContentScript({
     });
 
     // Track visit when page loads
-    detectAndRecordVisit().catch((err) => {
+    detectAndRecordVisit(enterpriseHost).catch((err) => {
       console.error('[Git Look-Around] Failed to record visit:', err);
     });
 
@@ -257,7 +337,7 @@ export default defineContentScript({
     const observer = new window.MutationObserver(() => {
       if (window.location.pathname !== lastPath) {
         lastPath = window.location.pathname;
-        detectAndRecordVisit().catch((err) => {
+        detectAndRecordVisit(enterpriseHost).catch((err) => {
           console.error('[Git Look-Around] Failed to record visit:', err);
         });
       }
@@ -7,7 +7,7 @@ import { waitForPageReady } from './github-token-helper/dom-utils';
 import { highlightScopes } from './github-token-helper/scope-highlighter';
 
 // Required scopes for the extension
-const REQUIRED_SCOPES = ['repo', 'read:user', 'read:org'];
+const REQUIRED_SCOPES = ['repo', 'read:user', 'read:org', 'read:project'];
 
 // Inject CSS styles
 function injectStyles() {
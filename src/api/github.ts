@@ -2,14 +2,65 @@
  * GitHub API client with authentication
  */
 
-import { getGitHubToken } from '@/src/storage/chrome';
-import { getMeta, setMeta } from '@/src/storage/db';
-import type { GitHubRepo, GitHubIssue, GitHubPullRequest, GitHubOrg } from '@/src/types';
-
+import { getGitHubToken, getEnterpriseHosts, getGitHubAccounts } from '@/src/storage/chrome';
+import { getMeta, setMeta, getHttpCacheEntry, saveHttpCacheEntry } from '@/src/storage/db';
+import type {
+  GitHubRepo,
+  GitHubIssue,
+  GitHubIssueComment,
+  GitHubPullRequest,
+  PullRequestChecksState,
+  PullRequestReviewDecision,
+  PullRequestReview,
+  GitHubOrg,
+  GitHubRelease,
+  GitHubTag,
+  GitHubMilestone,
+  GitHubWorkflowRun,
+  GitHubGist,
+  GitHubNotification,
+  GitHubBranch,
+  GitHubTree,
+  SyncRunStats,
+} from '@/src/types';
+
+export const DEFAULT_WEB_HOST = 'github.com';
 const GITHUB_API_BASE = 'https://api.github.com';
+const GRAPHQL_PATH = '/graphql';
 const RATE_LIMIT_META_KEY = 'rate_limit_info';
+const MAX_CACHED_BODY_LENGTH = 2 * 1024 * 1024; // Don't cache huge responses (~2MB of JSON)
+const CACHE_REVALIDATED_WRITE_INTERVAL_MS = 60 * 60 * 1000; // Mark 304s as fresh at most hourly
+const REQUEST_PAUSE_META_KEY = 'request_pause';
+const MAX_CONCURRENT_REQUESTS = 4;
+const RATE_LIMIT_RESERVE = 100; // Below this many remaining requests, only high priority runs
+const SECONDARY_LIMIT_BACKOFF_MS = 60 * 1000; // When a secondary limit comes without Retry-After
+const MAX_RATE_LIMIT_RETRIES = 3;
+// Check run conclusions that count as a red CI
+const FAILED_CHECK_CONCLUSIONS = new Set([
+  'failure',
+  'timed_out',
+  'cancelled',
+  'action_required',
+  'startup_failure',
+]);
 let userInvolvedSearchDisabled = false; // Disable search-based PR fetch once it fails in a session
 
+/**
+ * Request priority: quick-check and on-demand fetches go before full imports
+ */
+export type RequestPriority = 'high' | 'normal';
+
+/**
+ * Per-request context threaded through the API helpers
+ */
+export interface GitHubRequestContext {
+  host?: string; // Web host of a GitHub Enterprise Server instance (github.com when omitted)
+  account?: string; // Login of an additional github.com account (primary account when omitted)
+  priority?: RequestPriority; // 'normal' when omitted
+  signal?: AbortSignal; // Cancels the request, whether still queued or in flight
+  stats?: SyncRunStats; // Counts the requests of a sync run
+}
+
 /**
  * Rate limit information
  */
@@ -20,23 +71,408 @@ export interface RateLimitInfo {
   reset: number; // Unix timestamp
 }
 
+/**
+ * Why requests for a rate limit scope are on hold
+ * - reserve: below RATE_LIMIT_RESERVE, only high-priority requests may continue
+ * - rate_limit: primary limit exhausted until the window resets
+ * - secondary_limit: GitHub's abuse detection asked us to back off (Retry-After)
+ */
+export interface RequestPause {
+  scope: string; // Rate limit scope (per host, account and API resource)
+  reason: 'reserve' | 'rate_limit' | 'secondary_limit';
+  message: string;
+  until: number; // Timestamp when requests resume
+}
+
+/**
+ * Whether an error comes from a cancelled request (see GitHubRequestContext.signal)
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Thrown when the resource doesn't exist (or the token can't see it): by sendRequest on a 404,
+ * and by the GraphQL client when a query's repository comes back null
+ */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Whether an error is GitHub answering 404 for the requested resource
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return error instanceof NotFoundError;
+}
+
+/**
+ * Thrown by sendRequest when GitHub rate limits a request; githubFetch retries it
+ */
+class RateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+interface QueuedRequest {
+  scope: string;
+  priority: RequestPriority;
+  start: () => void;
+}
+
+// Shared across all callers, so bursts like per-org or per-repo Promise.all stay bounded
+const requestQueue: QueuedRequest[] = [];
+const pauses = new Map<string, RequestPause>();
+let activeRequests = 0;
+let resumeTimeoutId: ReturnType<typeof setTimeout> | null = null;
+let resumeTimeoutAt = 0; // When the pending resume timer fires
+let pausesRestored: Promise<void> | null = null;
+// Last seen used count per rate limit budget, to tell what each response cost
+const rateLimitUsage = new Map<string, { used: number; reset: number }>();
+
+/**
+ * Queue a request; high-priority requests run first and may use the reserved budget
+ * A request cancelled while still queued leaves the queue without ever starting
+ */
+function enqueueRequest<T>(
+  scope: string,
+  priority: RequestPriority,
+  task: () => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const request: QueuedRequest = {
+      scope,
+      priority,
+      start: () => {
+        signal?.removeEventListener('abort', dequeue);
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            activeRequests--;
+            drainQueue();
+          });
+      },
+    };
+    function dequeue() {
+      const index = requestQueue.indexOf(request);
+      if (index >= 0) {
+        requestQueue.splice(index, 1);
+        reject(signal!.reason);
+      }
+    }
+
+    signal?.addEventListener('abort', dequeue, { once: true });
+    requestQueue.push(request);
+    drainQueue();
+  });
+}
+
+/**
+ * Start queued requests up to the concurrency limit, skipping paused scopes
+ */
+function drainQueue(): void {
+  while (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    const highIndex = findRunnableRequest('high');
+    const index = highIndex >= 0 ? highIndex : findRunnableRequest('normal');
+    if (index < 0) {
+      break;
+    }
+
+    const [request] = requestQueue.splice(index, 1);
+    activeRequests++;
+    request.start();
+  }
+
+  // Requests left behind are waiting for a pause to end: wake up when the first one does
+  // (sooner than planned when a pause was replaced by one ending earlier)
+  const now = Date.now();
+  const resumeTimes = Array.from(pauses.values(), (pause) => pause.until).filter((t) => t > now);
+  if (requestQueue.length === 0 || resumeTimes.length === 0) {
+    return;
+  }
+  const resumeAt = Math.min(...resumeTimes);
+  if (resumeTimeoutId !== null) {
+    if (resumeTimeoutAt <= resumeAt) {
+      return;
+    }
+    clearTimeout(resumeTimeoutId);
+  }
+  resumeTimeoutAt = resumeAt;
+  resumeTimeoutId = setTimeout(() => {
+    resumeTimeoutId = null;
+    drainQueue();
+  }, resumeAt - now);
+}
+
+function findRunnableRequest(priority: RequestPriority): number {
+  return requestQueue.findIndex(
+    (request) => request.priority === priority && !isPaused(request.scope, priority),
+  );
+}
+
+function isPaused(scope: string, priority: RequestPriority): boolean {
+  const pause = pauses.get(scope);
+  if (!pause) {
+    return false;
+  }
+  if (pause.until <= Date.now()) {
+    pauses.delete(scope);
+    return false;
+  }
+  // The reserve exists for high-priority requests
+  return !(pause.reason === 'reserve' && priority === 'high');
+}
+
+/**
+ * Put a rate limit scope on hold
+ * Persisted so the popup can show why sync is paused, and so a restarted service worker
+ * keeps waiting instead of hitting the limit again (see restorePauses)
+ */
+async function pauseRequests(
+  scope: string,
+  until: number,
+  reason: RequestPause['reason'],
+  message: string,
+): Promise<void> {
+  const current = pauses.get(scope);
+  if (current && current.until >= until && current.reason !== 'reserve') {
+    return;
+  }
+
+  const pause: RequestPause = { scope, reason, message, until };
+  pauses.set(scope, pause);
+  drainQueue(); // Reschedule the resume timer if this pause ends sooner than the one it replaced
+  await setMeta(
+    REQUEST_PAUSE_META_KEY,
+    Array.from(pauses.values()).filter((p) => p.until > Date.now()),
+  );
+  console.warn(
+    `[GitHub API] Pausing ${scope} until ${new Date(until).toLocaleTimeString()}: ${message}`,
+  );
+}
+
+/**
+ * Get the pauses still in effect, as persisted by pauseRequests
+ */
+async function getStoredPauses(): Promise<RequestPause[]> {
+  const stored = (await getMeta(REQUEST_PAUSE_META_KEY)) as RequestPause[] | RequestPause | null;
+  // Older versions stored only the latest pause
+  const list = Array.isArray(stored) ? stored : stored ? [stored] : [];
+  return list.filter((pause) => pause.until > Date.now());
+}
+
+/**
+ * Load the pauses of a previous service worker, once per worker (before its first request)
+ */
+function restorePauses(): Promise<void> {
+  pausesRestored ??= getStoredPauses().then(
+    (stored) => {
+      for (const pause of stored) {
+        if (!pauses.has(pause.scope)) pauses.set(pause.scope, pause);
+      }
+    },
+    (error) => console.warn('[GitHub API] Failed to restore request pauses:', error),
+  );
+  return pausesRestored;
+}
+
+/**
+ * Pause the scope of a 403/429 response if it is a rate limit, then throw a RateLimitError
+ * Other 403s (e.g. missing permissions) fall through to the generic error
+ */
+async function handleRateLimitResponse(response: Response, scope: string): Promise<void> {
+  const retryAfter = response.headers.get('retry-after');
+  const remaining = response.headers.get('x-ratelimit-remaining');
+  const reset = response.headers.get('x-ratelimit-reset');
+
+  let pause: Pick<RequestPause, 'reason' | 'until'> | null = null;
+  if (retryAfter) {
+    pause = { reason: 'secondary_limit', until: Date.now() + parseInt(retryAfter, 10) * 1000 };
+  } else if (remaining === '0' && reset) {
+    pause = { reason: 'rate_limit', until: parseInt(reset, 10) * 1000 };
+  } else if (/secondary rate limit/i.test(await response.clone().text())) {
+    pause = { reason: 'secondary_limit', until: Date.now() + SECONDARY_LIMIT_BACKOFF_MS };
+  }
+
+  if (!pause) {
+    return;
+  }
+
+  const resumeAt = new Date(pause.until).toLocaleTimeString();
+  const message =
+    pause.reason === 'rate_limit'
+      ? `GitHub API rate limit exceeded. Resets at ${resumeAt}`
+      : `GitHub secondary rate limit hit. Backing off until ${resumeAt}`;
+  await pauseRequests(scope, pause.until, pause.reason, message);
+  throw new RateLimitError(message);
+}
+
+/**
+ * Pause the scope of a GraphQL response that reports RATE_LIMITED, then throw a RateLimitError
+ * GraphQL answers an exhausted budget with HTTP 200 and the error in the body
+ */
+async function handleGraphQLRateLimit(response: Response, scope: string): Promise<void> {
+  const body = await response.clone().text();
+  if (!body.includes('RATE_LIMITED')) {
+    return;
+  }
+
+  const json = JSON.parse(body) as { errors?: Array<{ type?: string }> };
+  if (!json.errors?.some((error) => error.type === 'RATE_LIMITED')) {
+    return;
+  }
+
+  const reset = response.headers.get('x-ratelimit-reset');
+  const until = reset ? parseInt(reset, 10) * 1000 : Date.now() + SECONDARY_LIMIT_BACKOFF_MS;
+  const message = `GitHub GraphQL rate limit exceeded. Resets at ${new Date(until).toLocaleTimeString()}`;
+  await pauseRequests(scope, until, 'rate_limit', message);
+  throw new RateLimitError(message);
+}
+
+/**
+ * Rate limit resource a request counts against (GraphQL and search have separate budgets)
+ */
+function resourceForPath(path: string): string {
+  if (path === GRAPHQL_PATH) return 'graphql';
+  if (path.startsWith('/search/')) return 'search';
+  return 'core';
+}
+
+/**
+ * Get the current request pause, if any (e.g. to show why sync is paused)
+ */
+export async function getRequestPause(): Promise<RequestPause | null> {
+  const stored = await getStoredPauses();
+  // The one holding sync up the longest
+  return stored.reduce<RequestPause | null>(
+    (longest, pause) => (!longest || pause.until > longest.until ? pause : longest),
+    null,
+  );
+}
+
+/**
+ * Resolved endpoints and credentials for a request context
+ */
+interface GitHubTarget {
+  apiBase: string;
+  graphqlUrl: string;
+  token: string | null;
+}
+
+/**
+ * Resolve API endpoints and token for github.com or a registered enterprise host
+ */
+async function resolveTarget(ctx: GitHubRequestContext): Promise<GitHubTarget> {
+  if (!ctx.host || ctx.host === DEFAULT_WEB_HOST) {
+    let token = await getGitHubToken();
+    if (ctx.account) {
+      const login = ctx.account.toLowerCase();
+      const account = (await getGitHubAccounts()).find((a) => a.login.toLowerCase() === login);
+      if (!account) {
+        throw new Error(`Unknown GitHub account: ${ctx.account}`);
+      }
+      token = account.token;
+    }
+
+    return {
+      apiBase: GITHUB_API_BASE,
+      graphqlUrl: `${GITHUB_API_BASE}${GRAPHQL_PATH}`,
+      token,
+    };
+  }
+
+  const hosts = await getEnterpriseHosts();
+  const host = hosts.find((h) => h.webHost === ctx.host);
+  if (!host) {
+    throw new Error(`Unknown GitHub Enterprise host: ${ctx.host}`);
+  }
+
+  // GHES serves REST under /api/v3 and GraphQL under /api/graphql
+  const apiBase = host.apiBase.replace(/\/+$/, '');
+  return {
+    apiBase,
+    graphqlUrl: `${apiBase.replace(/\/v3$/, '')}${GRAPHQL_PATH}`,
+    token: host.token,
+  };
+}
+
 /**
  * Make authenticated request to GitHub API
+ * Requests go through a shared queue with bounded concurrency (see enqueueRequest), and are
+ * retried after the pause when GitHub answers with a primary or secondary rate limit
+ * GET requests are revalidated with ETag / Last-Modified: a 304 costs no rate limit,
+ * and the cached body is served as if it were a normal 200 response
  */
-export async function githubFetch(path: string, options: RequestInit = {}): Promise<Response> {
-  const token = await getGitHubToken();
+export async function githubFetch(
+  path: string,
+  options: RequestInit = {},
+  ctx: GitHubRequestContext = {},
+): Promise<Response> {
+  const scope = rateLimitMetaKey(ctx, resourceForPath(path));
+  const priority = ctx.priority ?? 'normal';
+  await restorePauses();
+
+  for (let attempt = 0; ; attempt++) {
+    ctx.signal?.throwIfAborted();
+    try {
+      return await enqueueRequest(
+        scope,
+        priority,
+        () => sendRequest(path, options, ctx, scope),
+        ctx.signal,
+      );
+    } catch (error) {
+      if (!(error instanceof RateLimitError) || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw error;
+      }
+      // The scope is paused now; the retry waits in the queue until the pause ends
+      console.warn(`[GitHub API] ${error.message} - retrying ${path} after the pause`);
+    }
+  }
+}
+
+/**
+ * Send a single request (called from the queue)
+ * @param scope Rate limit scope of the request, paused on rate limit responses
+ */
+async function sendRequest(
+  path: string,
+  options: RequestInit,
+  ctx: GitHubRequestContext,
+  scope: string,
+): Promise<Response> {
+  const { apiBase, graphqlUrl, token } = await resolveTarget(ctx);
 
   if (!token) {
     throw new Error('No GitHub token found. Please authenticate in extension settings.');
   }
 
+  const url = path === GRAPHQL_PATH ? graphqlUrl : `${apiBase}${path}`;
+  const isCacheable = (options.method || 'GET').toUpperCase() === 'GET';
+  // Different accounts see different data at the same URL (e.g. /user/repos)
+  const cacheKey = ctx.account ? `${url}#${ctx.account.toLowerCase()}` : url;
+  const cached = isCacheable ? await getHttpCacheEntry(cacheKey) : undefined;
+
   const headers = new Headers(options.headers || {});
   headers.set('Authorization', `token ${token}`);
   headers.set('Accept', 'application/vnd.github.v3+json');
+  if (cached?.etag) {
+    headers.set('If-None-Match', cached.etag);
+  }
+  if (cached?.last_modified) {
+    headers.set('If-Modified-Since', cached.last_modified);
+  }
 
-  const response = await fetch(`${GITHUB_API_BASE}${path}`, {
+  const response = await fetch(url, {
     ...options,
     headers,
+    signal: ctx.signal ?? options.signal,
   });
 
   // Extract rate limit info from headers
@@ -44,6 +480,7 @@ export async function githubFetch(path: string, options: RequestInit = {}): Prom
   const remaining = response.headers.get('x-ratelimit-remaining');
   const used = response.headers.get('x-ratelimit-used');
   const reset = response.headers.get('x-ratelimit-reset');
+  const resource = response.headers.get('x-ratelimit-resource');
 
   if (limit && remaining && used && reset) {
     const rateLimitInfo: RateLimitInfo = {
@@ -53,38 +490,149 @@ export async function githubFetch(path: string, options: RequestInit = {}): Prom
       reset: parseInt(reset, 10),
     };
     // Store in IndexedDB so it's accessible from all contexts (popup, content script)
-    await setMeta(RATE_LIMIT_META_KEY, rateLimitInfo);
+    // GraphQL and search have separate budgets; keep them from overwriting the core one
+    await setMeta(rateLimitMetaKey(ctx, resource), rateLimitInfo);
+
+    const cost = rateLimitCost(rateLimitMetaKey(ctx, resource), rateLimitInfo, response.status);
+    if (ctx.stats) ctx.stats.rateLimitUsed += cost;
+  }
+
+  if (ctx.stats) {
+    ctx.stats.apiCalls++;
+    if (response.status === 304) ctx.stats.cachedResponses++;
+  }
+
+  // Not modified: serve the cached body (304s don't count against the rate limit)
+  if (response.status === 304 && cached) {
+    const cachedHeaders = new Headers({ 'content-type': 'application/json; charset=utf-8' });
+    if (cached.link) cachedHeaders.set('link', cached.link);
+    if (cached.etag) cachedHeaders.set('etag', cached.etag);
+    if (cached.last_modified) cachedHeaders.set('last-modified', cached.last_modified);
+    // Polling hints belong to the live response (e.g. X-Poll-Interval of /notifications)
+    const pollInterval = response.headers.get('x-poll-interval');
+    if (pollInterval) cachedHeaders.set('x-poll-interval', pollInterval);
+
+    // Still valid: keep it from being pruned as stale (not on every poll, bodies can be large)
+    if (Date.now() - cached.cached_at > CACHE_REVALIDATED_WRITE_INTERVAL_MS) {
+      await saveHttpCacheEntry({ ...cached, cached_at: Date.now() });
+    }
+    return new Response(cached.body, { status: 200, headers: cachedHeaders });
   }
 
   if (!response.ok) {
     if (response.status === 401) {
       throw new Error('Invalid GitHub token. Please update in extension settings.');
     }
-    if (response.status === 403 && remaining === '0') {
-      const resetDate = reset ? new Date(parseInt(reset, 10) * 1000) : null;
-      throw new Error(
-        `GitHub API rate limit exceeded. Resets at ${resetDate?.toLocaleTimeString() || 'unknown'}`,
-      );
+    if (response.status === 403 || response.status === 429) {
+      await handleRateLimitResponse(response, scope);
+    }
+    if (response.status === 404) {
+      throw new NotFoundError(`GitHub API error: ${response.status} ${response.statusText}`);
     }
     throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
   }
 
+  if (path === GRAPHQL_PATH) {
+    await handleGraphQLRateLimit(response, scope);
+  }
+
+  // Keep a reserve for high-priority requests: pause the rest until the window resets
+  if (remaining && reset && parseInt(remaining, 10) < RATE_LIMIT_RESERVE) {
+    await pauseRequests(
+      scope,
+      parseInt(reset, 10) * 1000,
+      'reserve',
+      `Only ${remaining} API requests left, saving them for quick updates`,
+    );
+  }
+
+  if (isCacheable) {
+    await cacheResponse(cacheKey, response);
+  }
+
   return response;
 }
 
+/**
+ * Store a response body with its validators so the next request can be conditional
+ * @param url Cache key: the request URL, suffixed with the account for additional accounts
+ */
+async function cacheResponse(url: string, response: Response): Promise<void> {
+  const etag = response.headers.get('etag');
+  const lastModified = response.headers.get('last-modified');
+  if (!etag && !lastModified) {
+    return;
+  }
+
+  try {
+    const body = await response.clone().text();
+    if (body.length > MAX_CACHED_BODY_LENGTH) {
+      return;
+    }
+
+    await saveHttpCacheEntry({
+      url,
+      etag,
+      last_modified: lastModified,
+      link: response.headers.get('link'),
+      body,
+      cached_at: Date.now(),
+    });
+  } catch (error) {
+    // Caching is best-effort; the response itself is still usable
+    console.warn(`[GitHub API] Failed to cache response for ${url}:`, error);
+  }
+}
+
+/**
+ * Rate limit points a response consumed: how much its budget's used count grew since the previous
+ * response (a GraphQL query can cost more than one point), or one point when there is nothing to
+ * compare to. Other clients using the same token count too, so this is an estimate.
+ */
+function rateLimitCost(key: string, info: RateLimitInfo, status: number): number {
+  const previous = rateLimitUsage.get(key);
+  if (previous && previous.reset === info.reset) {
+    // Concurrent responses may arrive out of order
+    rateLimitUsage.set(key, { used: Math.max(previous.used, info.used), reset: info.reset });
+    return Math.max(0, info.used - previous.used);
+  }
+
+  rateLimitUsage.set(key, { used: info.used, reset: info.reset });
+  return status === 304 ? 0 : 1;
+}
+
+/**
+ * Meta key for rate limit info (per host, per account and per API resource)
+ */
+function rateLimitMetaKey(ctx: GitHubRequestContext, resource: string | null = null): string {
+  let key = RATE_LIMIT_META_KEY;
+  if (ctx.host && ctx.host !== DEFAULT_WEB_HOST) {
+    key += `@${ctx.host}`;
+  }
+  if (ctx.account) {
+    key += `~${ctx.account.toLowerCase()}`;
+  }
+  if (resource && resource !== 'core') {
+    key += `:${resource}`;
+  }
+  return key;
+}
+
 /**
  * Get the last known rate limit info from IndexedDB
  */
-export async function getLastRateLimit(): Promise<RateLimitInfo | null> {
-  const value = await getMeta(RATE_LIMIT_META_KEY);
+export async function getLastRateLimit(
+  ctx: GitHubRequestContext = {},
+): Promise<RateLimitInfo | null> {
+  const value = await getMeta(rateLimitMetaKey(ctx));
   return value as RateLimitInfo | null;
 }
 
 /**
  * Get authenticated user info
  */
-export async function getAuthenticatedUser() {
-  const response = await githubFetch('/user');
+export async function getAuthenticatedUser(ctx: GitHubRequestContext = {}) {
+  const response = await githubFetch('/user', {}, ctx);
   return response.json();
 }
 
@@ -92,17 +640,20 @@ export async function getAuthenticatedUser() {
  * Get repository details by full name (owner/repo)
  * Useful to resolve parent info for forks
  */
-export async function getRepoByFullName(fullName: string): Promise<GitHubRepo> {
-  const response = await githubFetch(`/repos/${fullName}`);
+export async function getRepoByFullName(
+  fullName: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubRepo> {
+  const response = await githubFetch(`/repos/${fullName}`, {}, ctx);
   return response.json();
 }
 
 /**
  * Test if token is valid
  */
-export async function validateToken(): Promise<boolean> {
+export async function validateToken(ctx: GitHubRequestContext = {}): Promise<boolean> {
   try {
-    await getAuthenticatedUser();
+    await getAuthenticatedUser(ctx);
     return true;
   } catch {
     return false;
@@ -113,13 +664,17 @@ export async function validateToken(): Promise<boolean> {
  * Get user's repositories with pagination
  * Fetches all repositories across multiple pages
  */
-export async function getUserRepos(): Promise<GitHubRepo[]> {
+export async function getUserRepos(ctx: GitHubRequestContext = {}): Promise<GitHubRepo[]> {
   const allRepos: GitHubRepo[] = [];
   let page = 1;
   let hasMore = true;
 
   while (hasMore) {
-    const response = await githubFetch(`/user/repos?per_page=100&sort=pushed&page=${page}`);
+    const response = await githubFetch(
+      `/user/repos?per_page=100&sort=pushed&page=${page}`,
+      {},
+      ctx,
+    );
     const repos: GitHubRepo[] = await response.json();
     allRepos.push(...repos);
 
@@ -132,22 +687,119 @@ export async function getUserRepos(): Promise<GitHubRepo[]> {
   return allRepos;
 }
 
+/**
+ * Get all repositories starred by the authenticated user
+ */
+export async function getUserStarredRepos(ctx: GitHubRequestContext = {}): Promise<GitHubRepo[]> {
+  const allRepos: GitHubRepo[] = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response = await githubFetch(`/user/starred?per_page=100&page=${page}`, {}, ctx);
+    const repos: GitHubRepo[] = await response.json();
+    allRepos.push(...repos);
+
+    const linkHeader = response.headers.get('link');
+    hasMore = linkHeader?.includes('rel="next"') ?? false;
+    page++;
+  }
+
+  return allRepos;
+}
+
+/**
+ * Get all gists of the authenticated user (public and secret)
+ */
+export async function getUserGists(ctx: GitHubRequestContext = {}): Promise<GitHubGist[]> {
+  const allGists: GitHubGist[] = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response = await githubFetch(`/gists?per_page=100&page=${page}`, {}, ctx);
+    const gists: GitHubGist[] = await response.json();
+    allGists.push(...gists);
+
+    // Check Link header for rel="next" to determine if there are more pages
+    const linkHeader = response.headers.get('link');
+    hasMore = linkHeader?.includes('rel="next"') ?? false;
+    page++;
+  }
+
+  return allGists;
+}
+
+/**
+ * Get the unread notification threads of the authenticated user, most recently updated first
+ * Requests are conditional (Last-Modified), so polling an unchanged inbox costs no rate limit
+ * @returns The threads, and the minimum number of seconds GitHub asks to wait before polling
+ * again (X-Poll-Interval)
+ */
+export async function getNotifications(
+  limit: number,
+  ctx: GitHubRequestContext = {},
+): Promise<{ notifications: GitHubNotification[]; pollInterval: number | null }> {
+  const notifications: GitHubNotification[] = [];
+  let pollInterval: number | null = null;
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore && notifications.length < limit) {
+    const response = await githubFetch(`/notifications?per_page=50&page=${page}`, {}, ctx);
+    const threads: GitHubNotification[] = await response.json();
+    notifications.push(...threads);
+
+    if (page === 1) {
+      const header = response.headers.get('x-poll-interval');
+      pollInterval = header ? parseInt(header, 10) : null;
+    }
+
+    const linkHeader = response.headers.get('link');
+    hasMore = linkHeader?.includes('rel="next"') ?? false;
+    page++;
+  }
+
+  return { notifications: notifications.slice(0, limit), pollInterval };
+}
+
+/**
+ * Mark a notification thread as read
+ */
+export async function markNotificationThreadRead(
+  threadId: string,
+  ctx: GitHubRequestContext = {},
+): Promise<void> {
+  await githubFetch(
+    `/notifications/threads/${encodeURIComponent(threadId)}`,
+    { method: 'PATCH' },
+    ctx,
+  );
+}
+
 /**
  * Get all issues for a repository
  * Note: GitHub's API returns PRs in the issues endpoint, so we filter them out
+ * @param since Only return issues updated at or after this ISO 8601 time
  */
 export async function getRepoIssues(
   owner: string,
   repo: string,
   state: 'open' | 'closed' | 'all' = 'all',
+  since?: string,
+  ctx: GitHubRequestContext = {},
 ): Promise<GitHubIssue[]> {
   const allIssues: GitHubIssue[] = [];
+  // Changes only, most recently updated first
+  const sinceParam = since ? `&since=${encodeURIComponent(since)}&sort=updated` : '';
   let page = 1;
   let hasMore = true;
 
   while (hasMore) {
     const response = await githubFetch(
-      `/repos/${owner}/${repo}/issues?per_page=100&state=${state}&page=${page}`,
+      `/repos/${owner}/${repo}/issues?per_page=100&state=${state}${sinceParam}&page=${page}`,
+      {},
+      ctx,
     );
     const issues: GitHubIssue[] = await response.json();
 
@@ -171,11 +823,43 @@ export async function getIssue(
   owner: string,
   repo: string,
   issueNumber: number,
+  ctx: GitHubRequestContext = {},
 ): Promise<GitHubIssue> {
-  const response = await githubFetch(`/repos/${owner}/${repo}/issues/${issueNumber}`);
+  const response = await githubFetch(`/repos/${owner}/${repo}/issues/${issueNumber}`, {}, ctx);
   return response.json() as Promise<GitHubIssue>;
 }
 
+/**
+ * Get a repo's most recently updated issue and PR comments, up to `limit`
+ * One listing for the whole repo instead of a request per issue
+ */
+export async function getRepoIssueComments(
+  owner: string,
+  repo: string,
+  limit: number = 100,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubIssueComment[]> {
+  const allComments: GitHubIssueComment[] = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore && allComments.length < limit) {
+    const response = await githubFetch(
+      `/repos/${owner}/${repo}/issues/comments?per_page=100&sort=updated&direction=desc&page=${page}`,
+      {},
+      ctx,
+    );
+    const comments: GitHubIssueComment[] = await response.json();
+    allComments.push(...comments);
+
+    const linkHeader = response.headers.get('link');
+    hasMore = linkHeader?.includes('rel="next"') ?? false;
+    page++;
+  }
+
+  return allComments.slice(0, limit);
+}
+
 /**
  * Get pull requests for a repository
  * Fetches open PRs and last 50 closed PRs (sorted by recently updated)
@@ -183,6 +867,7 @@ export async function getIssue(
 export async function getRepoPullRequests(
   owner: string,
   repo: string,
+  ctx: GitHubRequestContext = {},
 ): Promise<GitHubPullRequest[]> {
   const allPRs: GitHubPullRequest[] = [];
 
@@ -192,6 +877,8 @@ export async function getRepoPullRequests(
   while (hasMore) {
     const response = await githubFetch(
       `/repos/${owner}/${repo}/pulls?per_page=100&state=open&page=${page}`,
+      {},
+      ctx,
     );
     const prs: GitHubPullRequest[] = await response.json();
     allPRs.push(...prs);
@@ -204,6 +891,8 @@ export async function getRepoPullRequests(
   // Fetch last 50 closed PRs (sorted by recently updated)
   const closedResponse = await githubFetch(
     `/repos/${owner}/${repo}/pulls?per_page=50&state=closed&sort=updated&direction=desc`,
+    {},
+    ctx,
   );
   const closedPRs: GitHubPullRequest[] = await closedResponse.json();
   allPRs.push(...closedPRs);
@@ -219,11 +908,123 @@ export async function getPullRequest(
   owner: string,
   repo: string,
   prNumber: number,
+  ctx: GitHubRequestContext = {},
 ): Promise<GitHubPullRequest> {
-  const response = await githubFetch(`/repos/${owner}/${repo}/pulls/${prNumber}`);
+  const response = await githubFetch(`/repos/${owner}/${repo}/pulls/${prNumber}`, {}, ctx);
   return response.json() as Promise<GitHubPullRequest>;
 }
 
+/**
+ * Get the latest review of each reviewer on a pull request
+ * A later comment doesn't replace an approval or a change request, same as on github.com
+ */
+export async function getPullRequestReviews(
+  owner: string,
+  repo: string,
+  prNumber: number,
+  ctx: GitHubRequestContext = {},
+): Promise<PullRequestReview[]> {
+  const response = await githubFetch(
+    `/repos/${owner}/${repo}/pulls/${prNumber}/reviews?per_page=100`,
+    {},
+    ctx,
+  );
+  const reviews: Array<{
+    user: { login: string; avatar_url: string } | null;
+    state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+    submitted_at: string | null;
+  }> = await response.json();
+
+  // Reviews come oldest first
+  const latestByReviewer = new Map<string, PullRequestReview>();
+  for (const review of reviews) {
+    if (!review.user || review.state === 'PENDING') continue;
+
+    const state = review.state.toLowerCase() as PullRequestReview['state'];
+    const previous = latestByReviewer.get(review.user.login);
+    if (
+      state === 'commented' &&
+      (previous?.state === 'approved' || previous?.state === 'changes_requested')
+    ) {
+      continue;
+    }
+
+    latestByReviewer.set(review.user.login, {
+      user: { login: review.user.login, avatar_url: review.user.avatar_url },
+      state,
+      submitted_at: review.submitted_at,
+    });
+  }
+
+  return [...latestByReviewer.values()];
+}
+
+/**
+ * Get the combined CI state of a commit: legacy commit statuses and check runs together
+ * Returns null when the commit has neither
+ */
+export async function getCommitChecksState(
+  owner: string,
+  repo: string,
+  sha: string,
+  ctx: GitHubRequestContext = {},
+): Promise<PullRequestChecksState | null> {
+  const [statusResponse, checkRunsResponse] = await Promise.all([
+    githubFetch(`/repos/${owner}/${repo}/commits/${sha}/status`, {}, ctx),
+    githubFetch(`/repos/${owner}/${repo}/commits/${sha}/check-runs?per_page=100`, {}, ctx),
+  ]);
+  const status: { state: 'success' | 'failure' | 'error' | 'pending'; total_count: number } =
+    await statusResponse.json();
+  const {
+    check_runs: checkRuns,
+  }: { check_runs: Array<{ status: string; conclusion: string | null }> } =
+    await checkRunsResponse.json();
+
+  const states: PullRequestChecksState[] = checkRuns.map((run) => {
+    if (run.status !== 'completed') return 'pending';
+    return FAILED_CHECK_CONCLUSIONS.has(run.conclusion ?? '') ? 'failure' : 'success';
+  });
+  // The combined status is "pending" when there are no statuses at all
+  if (status.total_count > 0) {
+    states.push(status.state === 'error' ? 'failure' : status.state);
+  }
+
+  if (states.includes('failure')) return 'failure';
+  if (states.includes('pending')) return 'pending';
+  return states.length > 0 ? 'success' : null;
+}
+
+/**
+ * Get what the PR list payload lacks over REST: review decision, latest reviews and CI state
+ * The decision is derived from the reviews since REST doesn't expose branch protection's verdict
+ */
+export async function getPullRequestReviewState(
+  owner: string,
+  repo: string,
+  pr: GitHubPullRequest,
+  ctx: GitHubRequestContext = {},
+): Promise<Pick<GitHubPullRequest, 'review_decision' | 'latest_reviews' | 'checks_state'>> {
+  const [latestReviews, checksState] = await Promise.all([
+    getPullRequestReviews(owner, repo, pr.number, ctx),
+    getCommitChecksState(owner, repo, pr.head.sha, ctx),
+  ]);
+
+  let reviewDecision: PullRequestReviewDecision | null = null;
+  if (latestReviews.some((review) => review.state === 'changes_requested')) {
+    reviewDecision = 'changes_requested';
+  } else if (latestReviews.some((review) => review.state === 'approved')) {
+    reviewDecision = 'approved';
+  } else if (pr.requested_reviewers.length > 0) {
+    reviewDecision = 'review_required';
+  }
+
+  return {
+    review_decision: reviewDecision,
+    latest_reviews: latestReviews,
+    checks_state: checksState,
+  };
+}
+
 /**
  * Get pull requests where the user is involved (author, assignee, or reviewer)
  * Uses the search API to avoid pulling every PR from large upstream repos
@@ -232,6 +1033,7 @@ export async function getUserInvolvedPullRequests(
   owner: string,
   repo: string,
   username: string,
+  ctx: GitHubRequestContext = {},
 ): Promise<GitHubPullRequest[]> {
   const prNumbers = new Set<number>();
   let searchErrored = false;
@@ -240,7 +1042,7 @@ export async function getUserInvolvedPullRequests(
     console.warn(
       `[GitHub API] Skipping search (disabled after previous failures); using fallback for ${owner}/${repo}`,
     );
-    return getRepoPullRequests(owner, repo).then((allPRs) =>
+    return getRepoPullRequests(owner, repo, ctx).then((allPRs) =>
       allPRs.filter((pr) => isUserInvolvedInPR(pr, username)),
     );
   }
@@ -253,6 +1055,8 @@ export async function getUserInvolvedPullRequests(
     while (hasMore) {
       const response = await githubFetch(
         `/search/issues?q=${encodeURIComponent(query)}&per_page=100&page=${page}`,
+        {},
+        ctx,
       );
       const data = await response.json();
       const items = (data.items || []) as Array<{ number: number }>;
@@ -290,6 +1094,7 @@ export async function getUserInvolvedPullRequests(
     try {
       await searchPRs(query);
     } catch (error) {
+      if (isAbortError(error)) throw error;
       searchErrored = true;
       userInvolvedSearchDisabled = true; // Disable for rest of session to avoid repeated 422s
       console.warn(
@@ -308,7 +1113,7 @@ export async function getUserInvolvedPullRequests(
     // Fetch full PR details for each matched number
     const prs = await Promise.all(
       Array.from(prNumbers).map(async (number) => {
-        const response = await githubFetch(`/repos/${owner}/${repo}/pulls/${number}`);
+        const response = await githubFetch(`/repos/${owner}/${repo}/pulls/${number}`, {}, ctx);
         return response.json() as Promise<GitHubPullRequest>;
       }),
     );
@@ -320,7 +1125,7 @@ export async function getUserInvolvedPullRequests(
   console.warn(
     `[GitHub API] Falling back to full PR fetch for ${owner}/${repo} (searchErrored=${searchErrored} searchDisabled=${userInvolvedSearchDisabled})`,
   );
-  const allPRs = await getRepoPullRequests(owner, repo);
+  const allPRs = await getRepoPullRequests(owner, repo, ctx);
   return allPRs.filter((pr) => isUserInvolvedInPR(pr, username));
 }
 
@@ -338,8 +1143,8 @@ function isUserInvolvedInPR(pr: GitHubPullRequest, username: string): boolean {
 /**
  * Get user's organizations
  */
-export async function getUserOrganizations(): Promise<GitHubOrg[]> {
-  const response = await githubFetch('/user/orgs?per_page=100');
+export async function getUserOrganizations(ctx: GitHubRequestContext = {}): Promise<GitHubOrg[]> {
+  const response = await githubFetch('/user/orgs?per_page=100', {}, ctx);
   const orgs: GitHubOrg[] = await response.json();
   return orgs;
 }
@@ -360,9 +1165,10 @@ export interface OrgMembership {
 export async function getOrgMembership(
   orgName: string,
   username: string,
+  ctx: GitHubRequestContext = {},
 ): Promise<OrgMembership | null> {
   try {
-    const response = await githubFetch(`/orgs/${orgName}/memberships/${username}`);
+    const response = await githubFetch(`/orgs/${orgName}/memberships/${username}`, {}, ctx);
     const data = await response.json();
     return {
       org: orgName,
@@ -378,16 +1184,24 @@ export async function getOrgMembership(
 /**
  * Get membership info for all user's organizations
  */
-export async function getAllOrgMemberships(username: string): Promise<OrgMembership[]> {
-  const orgs = await getUserOrganizations();
-  const memberships = await Promise.all(orgs.map((org) => getOrgMembership(org.login, username)));
+export async function getAllOrgMemberships(
+  username: string,
+  ctx: GitHubRequestContext = {},
+): Promise<OrgMembership[]> {
+  const orgs = await getUserOrganizations(ctx);
+  const memberships = await Promise.all(
+    orgs.map((org) => getOrgMembership(org.login, username, ctx)),
+  );
   return memberships.filter((m): m is OrgMembership => m !== null);
 }
 
 /**
  * Get repositories for a specific organization
  */
-export async function getOrgRepos(orgName: string): Promise<GitHubRepo[]> {
+export async function getOrgRepos(
+  orgName: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubRepo[]> {
   const allRepos: GitHubRepo[] = [];
   let page = 1;
   let hasMore = true;
@@ -395,6 +1209,8 @@ export async function getOrgRepos(orgName: string): Promise<GitHubRepo[]> {
   while (hasMore) {
     const response = await githubFetch(
       `/orgs/${orgName}/repos?per_page=100&sort=pushed&page=${page}`,
+      {},
+      ctx,
     );
     const repos: GitHubRepo[] = await response.json();
     allRepos.push(...repos);
@@ -410,19 +1226,24 @@ export async function getOrgRepos(orgName: string): Promise<GitHubRepo[]> {
 
 /**
  * Get all repositories (user repos + all organization repos)
+ * complete is false when part of the listing couldn't be fetched (e.g. a fork parent lookup failed)
  */
-export async function getAllAccessibleRepos(currentUserLogin?: string): Promise<{
+export async function getAllAccessibleRepos(
+  currentUserLogin?: string,
+  ctx: GitHubRequestContext = {},
+): Promise<{
   repos: GitHubRepo[];
   personalForkParentRepoIds: number[];
+  complete: boolean;
 }> {
   // Fetch user's personal repos
-  const userRepos = await getUserRepos();
+  const userRepos = await getUserRepos(ctx);
 
   // Fetch user's organizations
-  const orgs = await getUserOrganizations();
+  const orgs = await getUserOrganizations(ctx);
 
   // Fetch repos for each organization
-  const orgReposPromises = orgs.map((org) => getOrgRepos(org.login));
+  const orgReposPromises = orgs.map((org) => getOrgRepos(org.login, ctx));
   const orgReposArrays = await Promise.all(orgReposPromises);
 
   // Flatten all org repos
@@ -437,6 +1258,7 @@ export async function getAllAccessibleRepos(currentUserLogin?: string): Promise<
         )
       : [];
 
+  let complete = true;
   const forkParents = (
     await Promise.all(
       personalForks.map(async (fork) => {
@@ -446,10 +1268,11 @@ export async function getAllAccessibleRepos(currentUserLogin?: string): Promise<
             return fork.parent;
           }
 
-          const detailedRepo = await getRepoByFullName(fork.full_name);
+          const detailedRepo = await getRepoByFullName(fork.full_name, ctx);
           return detailedRepo.parent || null;
         } catch (error) {
           console.warn(`[GitHub API] Failed to resolve parent for fork ${fork.full_name}:`, error);
+          complete = false;
           return null;
         }
       }),
@@ -463,6 +1286,7 @@ export async function getAllAccessibleRepos(currentUserLogin?: string): Promise<
   return {
     repos: uniqueRepos,
     personalForkParentRepoIds: forkParents.map((repo) => repo.id),
+    complete,
   };
 }
 
@@ -470,19 +1294,28 @@ export async function getAllAccessibleRepos(currentUserLogin?: string): Promise<
  * Get only the first page of recently pushed repos (lightweight for quick checks)
  * Returns top N repos sorted by most recently pushed
  */
-export async function getRecentlyPushedRepos(limit: number = 20): Promise<GitHubRepo[]> {
+export async function getRecentlyPushedRepos(
+  limit: number = 20,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubRepo[]> {
   const allRepos: GitHubRepo[] = [];
 
   // Fetch first page of user repos (sorted by pushed)
-  const userReposResponse = await githubFetch(`/user/repos?per_page=${limit}&sort=pushed&page=1`);
+  const userReposResponse = await githubFetch(
+    `/user/repos?per_page=${limit}&sort=pushed&page=1`,
+    {},
+    ctx,
+  );
   const userRepos: GitHubRepo[] = await userReposResponse.json();
   allRepos.push(...userRepos);
 
   // Fetch first page of org repos for each org
-  const orgs = await getUserOrganizations();
+  const orgs = await getUserOrganizations(ctx);
   const orgReposPromises = orgs.map(async (org) => {
     const response = await githubFetch(
       `/orgs/${org.login}/repos?per_page=${limit}&sort=pushed&page=1`,
+      {},
+      ctx,
     );
     return response.json() as Promise<GitHubRepo[]>;
   });
@@ -509,9 +1342,138 @@ export async function getRecentlyUpdatedPRs(
   owner: string,
   repo: string,
   limit: number = 10,
+  ctx: GitHubRequestContext = {},
 ): Promise<GitHubPullRequest[]> {
   const response = await githubFetch(
     `/repos/${owner}/${repo}/pulls?per_page=${limit}&state=all&sort=updated&direction=desc`,
+    {},
+    ctx,
+  );
+  return response.json();
+}
+
+/**
+ * Get the most recent releases for a repo (newest first)
+ */
+export async function getRepoReleases(
+  owner: string,
+  repo: string,
+  limit: number = 30,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubRelease[]> {
+  const response = await githubFetch(`/repos/${owner}/${repo}/releases?per_page=${limit}`, {}, ctx);
+  return response.json();
+}
+
+/**
+ * Get the most recent tags for a repo
+ */
+export async function getRepoTags(
+  owner: string,
+  repo: string,
+  limit: number = 30,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubTag[]> {
+  const response = await githubFetch(`/repos/${owner}/${repo}/tags?per_page=${limit}`, {}, ctx);
+  return response.json();
+}
+
+/**
+ * Get a repo's milestones, open and closed, up to `limit` (next due first)
+ */
+export async function getRepoMilestones(
+  owner: string,
+  repo: string,
+  limit: number = 100,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubMilestone[]> {
+  const response = await githubFetch(
+    `/repos/${owner}/${repo}/milestones?state=all&sort=due_on&per_page=${limit}`,
+    {},
+    ctx,
+  );
+  return response.json();
+}
+
+/**
+ * Get the most recent GitHub Actions workflow runs for a repo, optionally for one branch
+ */
+export async function getRepoWorkflowRuns(
+  owner: string,
+  repo: string,
+  limit: number = 30,
+  branch?: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubWorkflowRun[]> {
+  const branchParam = branch ? `&branch=${encodeURIComponent(branch)}` : '';
+  const response = await githubFetch(
+    `/repos/${owner}/${repo}/actions/runs?per_page=${limit}${branchParam}`,
+    {},
+    ctx,
+  );
+  const data: { workflow_runs: GitHubWorkflowRun[] } = await response.json();
+  return data.workflow_runs;
+}
+
+/**
+ * Get a repo's branches, up to `limit` (GitHub lists them alphabetically)
+ */
+export async function getRepoBranches(
+  owner: string,
+  repo: string,
+  limit: number = 300,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubBranch[]> {
+  const allBranches: GitHubBranch[] = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore && allBranches.length < limit) {
+    const response = await githubFetch(
+      `/repos/${owner}/${repo}/branches?per_page=100&page=${page}`,
+      {},
+      ctx,
+    );
+    const branches: GitHubBranch[] = await response.json();
+    allBranches.push(...branches);
+
+    // Check Link header for rel="next" to determine if there are more pages
+    const linkHeader = response.headers.get('link');
+    hasMore = linkHeader?.includes('rel="next"') ?? false;
+    page++;
+  }
+
+  return allBranches.slice(0, limit);
+}
+
+/**
+ * Get the commit SHA a branch currently points to
+ */
+export async function getBranchHeadSha(
+  owner: string,
+  repo: string,
+  branch: string,
+  ctx: GitHubRequestContext = {},
+): Promise<string> {
+  const ref = branch.split('/').map(encodeURIComponent).join('/');
+  const response = await githubFetch(`/repos/${owner}/${repo}/git/ref/heads/${ref}`, {}, ctx);
+  const data: { object: { sha: string } } = await response.json();
+  return data.object.sha;
+}
+
+/**
+ * Get the full file tree of a commit (GitHub truncates it past 100,000 entries)
+ */
+export async function getRepoTree(
+  owner: string,
+  repo: string,
+  sha: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubTree> {
+  const response = await githubFetch(
+    `/repos/${owner}/${repo}/git/trees/${sha}?recursive=1`,
+    {},
+    ctx,
   );
   return response.json();
 }
@@ -524,11 +1486,16 @@ export async function isUserContributor(
   owner: string,
   repo: string,
   username: string,
+  ctx: GitHubRequestContext = {},
 ): Promise<boolean> {
   try {
     // Try to get the user from the contributors list
     // Using pagination to check first page (top 100 contributors)
-    const response = await githubFetch(`/repos/${owner}/${repo}/contributors?per_page=100`);
+    const response = await githubFetch(
+      `/repos/${owner}/${repo}/contributors?per_page=100`,
+      {},
+      ctx,
+    );
     const contributors = await response.json();
 
     // Check if our username is in the contributors list
@@ -552,11 +1519,14 @@ export async function getLastContributionDate(
   owner: string,
   repo: string,
   username: string,
+  ctx: GitHubRequestContext = {},
 ): Promise<string | null> {
   try {
     // Get the most recent commit by this user
     const response = await githubFetch(
       `/repos/${owner}/${repo}/commits?author=${username}&per_page=1`,
+      {},
+      ctx,
     );
     const commits = await response.json();
 
@@ -0,0 +1,1065 @@
+/**
+ * GitHub GraphQL API client
+ * Batches repos, PRs, issues and contributor data into paged queries so a full import
+ * costs a handful of requests per repo instead of one request per entity.
+ * Results are mapped onto the REST shapes so the rest of the import pipeline stays unchanged.
+ */
+
+import { githubFetch, NotFoundError, type GitHubRequestContext } from '@/src/api/github';
+import type {
+  GitHubRepo,
+  GitHubIssue,
+  GitHubPullRequest,
+  PullRequestChecksState,
+  PullRequestReviewDecision,
+  PullRequestReview,
+  GitHubDiscussion,
+  GitHubProject,
+  GitHubProjectItem,
+} from '@/src/types';
+
+const PAGE_SIZE = 100;
+const CLOSED_PRS_LIMIT = 50; // Keep parity with the REST path (last 50 closed PRs)
+const CONTRIBUTION_BATCH_SIZE = 20; // Repos per aliased contribution query
+const DISCUSSIONS_LIMIT = 300; // Most recently updated discussions per repo
+const PROJECTS_PAGE_SIZE = 20; // Projects per page (each one brings its first page of items)
+const PROJECTS_LIMIT = 100; // Most recently updated projects per organization
+const PROJECT_ITEMS_LIMIT = 500; // Items per project
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface Connection<T> {
+  pageInfo: PageInfo;
+  nodes: T[];
+}
+
+interface ActorNode {
+  login: string;
+  avatarUrl: string;
+}
+
+interface RepoNode {
+  databaseId: number;
+  name: string;
+  nameWithOwner: string;
+  url: string;
+  description: string | null;
+  owner: { login: string };
+  createdAt: string;
+  updatedAt: string;
+  pushedAt: string | null;
+  stargazerCount: number;
+  forkCount: number;
+  issues: { totalCount: number };
+  pullRequests: { totalCount: number };
+  diskUsage: number | null;
+  isPrivate: boolean;
+  isArchived: boolean;
+  isFork: boolean;
+  defaultBranchRef: { name: string } | null;
+  parent?: RepoNode | null;
+}
+
+interface IssueNode {
+  databaseId: number;
+  number: number;
+  title: string;
+  body: string;
+  state: 'OPEN' | 'CLOSED';
+  stateReason: string | null;
+  url: string;
+  locked: boolean;
+  activeLockReason: string | null;
+  author: ActorNode | null;
+  assignees: { nodes: ActorNode[] };
+  labels: { nodes: Array<{ name: string; color: string }> } | null;
+  milestone: { title: string; number: number } | null;
+  comments: { totalCount: number };
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  authorAssociation: string;
+}
+
+interface PullRequestNode {
+  databaseId: number;
+  number: number;
+  title: string;
+  body: string;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  url: string;
+  isDraft: boolean;
+  locked: boolean;
+  author: ActorNode | null;
+  assignees: { nodes: ActorNode[] };
+  reviewRequests: { nodes: Array<{ requestedReviewer: Partial<ActorNode> | null }> } | null;
+  labels: { nodes: Array<{ name: string; color: string }> } | null;
+  milestone: { title: string; number: number } | null;
+  headRefName: string;
+  headRefOid: string;
+  baseRefName: string;
+  baseRefOid: string;
+  merged: boolean;
+  mergedAt: string | null;
+  mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+  mergeCommit: { oid: string } | null;
+  comments: { totalCount: number };
+  commits: { totalCount: number };
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  authorAssociation: string;
+  reviewDecision: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;
+  latestReviews: {
+    nodes: Array<{
+      author: ActorNode | null;
+      state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+      submittedAt: string | null;
+    }>;
+  } | null;
+  lastCommit: {
+    nodes: Array<{
+      commit: {
+        statusCheckRollup: {
+          state: 'SUCCESS' | 'FAILURE' | 'ERROR' | 'PENDING' | 'EXPECTED';
+        } | null;
+      };
+    }>;
+  };
+}
+
+interface DiscussionNode {
+  databaseId: number;
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  closed: boolean;
+  closedAt: string | null;
+  stateReason: string | null;
+  locked: boolean;
+  author: ActorNode | null;
+  category: { name: string; emoji: string; isAnswerable: boolean };
+  answerChosenAt: string | null;
+  comments: { totalCount: number };
+  createdAt: string;
+  updatedAt: string;
+  authorAssociation: string;
+}
+
+interface ProjectItemNode {
+  id: string;
+  type: 'ISSUE' | 'PULL_REQUEST' | 'DRAFT_ISSUE' | 'REDACTED';
+  isArchived: boolean;
+  content:
+    | {
+        __typename: 'Issue' | 'PullRequest';
+        databaseId: number;
+        number: number;
+        title: string;
+        url: string;
+        state: 'OPEN' | 'CLOSED' | 'MERGED';
+        repository: { nameWithOwner: string };
+      }
+    | { __typename: 'DraftIssue'; title: string }
+    | null;
+  status: { name: string } | null;
+}
+
+interface ProjectNode {
+  id: string;
+  number: number;
+  title: string;
+  shortDescription: string | null;
+  url: string;
+  closed: boolean;
+  owner: { login?: string }; // Only selected for organizations
+  items: Connection<ProjectItemNode>;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+}
+
+/**
+ * Contribution info for a single repo (replaces contributors + commits REST calls)
+ */
+export interface RepoContribution {
+  meContributing: boolean;
+  lastContributedAt: string | null;
+}
+
+const REPO_FIELDS = `
+  fragment RepoFields on Repository {
+    databaseId
+    name
+    nameWithOwner
+    url
+    description
+    owner { login }
+    createdAt
+    updatedAt
+    pushedAt
+    stargazerCount
+    forkCount
+    issues(states: OPEN) { totalCount }
+    pullRequests(states: OPEN) { totalCount }
+    diskUsage
+    isPrivate
+    isArchived
+    isFork
+    defaultBranchRef { name }
+  }
+`;
+
+const ISSUE_FIELDS = `
+  fragment IssueFields on Issue {
+    databaseId
+    number
+    title
+    body
+    state
+    stateReason
+    url
+    locked
+    activeLockReason
+    author { login avatarUrl }
+    assignees(first: 10) { nodes { login avatarUrl } }
+    labels(first: 20) { nodes { name color } }
+    milestone { title number }
+    comments { totalCount }
+    createdAt
+    updatedAt
+    closedAt
+    authorAssociation
+  }
+`;
+
+const PULL_REQUEST_FIELDS = `
+  fragment PullRequestFields on PullRequest {
+    databaseId
+    number
+    title
+    body
+    state
+    url
+    isDraft
+    locked
+    author { login avatarUrl }
+    assignees(first: 10) { nodes { login avatarUrl } }
+    reviewRequests(first: 10) {
+      nodes { requestedReviewer { ... on User { login avatarUrl } } }
+    }
+    labels(first: 20) { nodes { name color } }
+    milestone { title number }
+    headRefName
+    headRefOid
+    baseRefName
+    baseRefOid
+    merged
+    mergedAt
+    mergeable
+    mergeCommit { oid }
+    comments { totalCount }
+    commits { totalCount }
+    additions
+    deletions
+    changedFiles
+    createdAt
+    updatedAt
+    closedAt
+    authorAssociation
+    reviewDecision
+    latestReviews(first: 20) { nodes { author { login avatarUrl } state submittedAt } }
+    lastCommit: commits(last: 1) { nodes { commit { statusCheckRollup { state } } } }
+  }
+`;
+
+const DISCUSSION_FIELDS = `
+  fragment DiscussionFields on Discussion {
+    databaseId
+    number
+    title
+    body
+    url
+    closed
+    closedAt
+    stateReason
+    locked
+    author { login avatarUrl }
+    category { name emoji isAnswerable }
+    answerChosenAt
+    comments { totalCount }
+    createdAt
+    updatedAt
+    authorAssociation
+  }
+`;
+
+const PROJECT_ITEM_FIELDS = `
+  fragment ProjectItemFields on ProjectV2Item {
+    id
+    type
+    isArchived
+    content {
+      __typename
+      ... on Issue {
+        databaseId
+        number
+        title
+        url
+        state
+        repository { nameWithOwner }
+      }
+      ... on PullRequest {
+        databaseId
+        number
+        title
+        url
+        state
+        repository { nameWithOwner }
+      }
+      ... on DraftIssue { title }
+    }
+    status: fieldValueByName(name: "Status") {
+      ... on ProjectV2ItemFieldSingleSelectValue { name }
+    }
+  }
+`;
+
+/**
+ * Thrown when GitHub rejects a GraphQL query itself (e.g. a field an older Enterprise Server
+ * lacks), as opposed to transport, rate limit or not-found failures
+ */
+class GraphQLError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GraphQLError';
+  }
+}
+
+/**
+ * Whether an error is GitHub rejecting a GraphQL query (see GraphQLError)
+ */
+export function isGraphQLError(error: unknown): boolean {
+  return error instanceof GraphQLError;
+}
+
+/**
+ * Execute a GraphQL query against the GitHub API
+ * Partial errors (e.g. one inaccessible repo in a batched query) are logged, not thrown
+ */
+export async function graphqlFetch<T>(
+  query: string,
+  variables: Record<string, unknown> = {},
+  ctx: GitHubRequestContext = {},
+): Promise<T> {
+  const response = await githubFetch(
+    '/graphql',
+    {
+      method: 'POST',
+      body: JSON.stringify({ query, variables }),
+    },
+    ctx,
+  );
+  const json = (await response.json()) as { data?: T | null; errors?: Array<{ message: string }> };
+
+  if (json.errors?.length) {
+    const messages = json.errors.map((error) => error.message).join('; ');
+    if (!json.data) {
+      throw new GraphQLError(`GitHub GraphQL error: ${messages}`);
+    }
+    console.warn(`[GitHub GraphQL] Partial errors: ${messages}`);
+  }
+
+  if (!json.data) {
+    throw new GraphQLError('GitHub GraphQL error: empty response');
+  }
+
+  return json.data;
+}
+
+/**
+ * The repository a repo-scoped query returned, or a NotFoundError when it came back null
+ * (not found, renamed or transferred, blocked by SAML). Read as an empty connection instead,
+ * it would look like a repo without issues and let a full sync delete them all.
+ */
+function requireRepository<T>(repository: T | null, owner: string, repo: string): T {
+  if (!repository) {
+    throw new NotFoundError(`GitHub GraphQL error: repository ${owner}/${repo} not found`);
+  }
+  return repository;
+}
+
+/**
+ * Walk a cursor-paginated connection until exhausted (or until limit nodes are collected)
+ */
+async function collectPages<TNode>(
+  fetchPage: (cursor: string | null) => Promise<Connection<TNode> | null>,
+  limit: number = Infinity,
+): Promise<TNode[]> {
+  const nodes: TNode[] = [];
+  let cursor: string | null = null;
+
+  while (nodes.length < limit) {
+    const connection = await fetchPage(cursor);
+    if (!connection) break;
+
+    nodes.push(...connection.nodes.filter((node) => node != null));
+
+    if (!connection.pageInfo.hasNextPage) break;
+    cursor = connection.pageInfo.endCursor;
+  }
+
+  return nodes.slice(0, limit);
+}
+
+function mapActor(actor: ActorNode | null): { login: string; avatar_url: string } {
+  // Deleted accounts come back as null ("ghost" on the web UI)
+  return actor
+    ? { login: actor.login, avatar_url: actor.avatarUrl }
+    : { login: 'ghost', avatar_url: '' };
+}
+
+function mapRepoNode(node: RepoNode): GitHubRepo {
+  return {
+    id: node.databaseId,
+    name: node.name,
+    full_name: node.nameWithOwner,
+    html_url: node.url,
+    description: node.description,
+    owner: { login: node.owner.login },
+    parent: node.parent ? mapRepoNode(node.parent) : undefined,
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    pushed_at: node.pushedAt,
+    stargazers_count: node.stargazerCount,
+    forks_count: node.forkCount,
+    // REST counts open PRs as issues too
+    open_issues_count: node.issues.totalCount + node.pullRequests.totalCount,
+    size: node.diskUsage ?? 0,
+    private: node.isPrivate,
+    archived: node.isArchived,
+    fork: node.isFork,
+    default_branch: node.defaultBranchRef?.name ?? 'main',
+  };
+}
+
+function mapIssueNode(node: IssueNode): GitHubIssue {
+  const assignees = node.assignees.nodes.map(mapActor);
+  return {
+    id: node.databaseId,
+    number: node.number,
+    title: node.title,
+    body: node.body || null,
+    state: node.state === 'OPEN' ? 'open' : 'closed',
+    html_url: node.url,
+    user: mapActor(node.author),
+    assignee: assignees[0] ?? null,
+    assignees,
+    labels: node.labels?.nodes ?? [],
+    milestone: node.milestone,
+    locked: node.locked,
+    active_lock_reason: node.activeLockReason?.toLowerCase() ?? null,
+    comments: node.comments.totalCount,
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    closed_at: node.closedAt,
+    author_association: node.authorAssociation,
+    state_reason: node.stateReason?.toLowerCase() ?? null,
+  };
+}
+
+function mapPullRequestNode(node: PullRequestNode): GitHubPullRequest {
+  const assignees = node.assignees.nodes.map(mapActor);
+  const requestedReviewers = (node.reviewRequests?.nodes ?? [])
+    .map((request) => request.requestedReviewer)
+    .filter((reviewer): reviewer is ActorNode => !!reviewer?.login)
+    .map(mapActor);
+  const latestReviews = (node.latestReviews?.nodes ?? [])
+    .filter((review) => review.state !== 'PENDING')
+    .map((review): PullRequestReview => ({
+      user: mapActor(review.author),
+      state: review.state.toLowerCase() as PullRequestReview['state'],
+      submitted_at: review.submittedAt,
+    }));
+  const rollupState = node.lastCommit.nodes[0]?.commit.statusCheckRollup?.state;
+
+  return {
+    id: node.databaseId,
+    number: node.number,
+    title: node.title,
+    body: node.body || null,
+    state: node.state === 'OPEN' ? 'open' : 'closed',
+    html_url: node.url,
+    diff_url: `${node.url}.diff`,
+    patch_url: `${node.url}.patch`,
+    user: mapActor(node.author),
+    assignee: assignees[0] ?? null,
+    assignees,
+    requested_reviewers: requestedReviewers,
+    labels: node.labels?.nodes ?? [],
+    milestone: node.milestone,
+    draft: node.isDraft,
+    locked: node.locked,
+    head: { ref: node.headRefName, sha: node.headRefOid },
+    base: { ref: node.baseRefName, sha: node.baseRefOid },
+    merged: node.merged,
+    merged_at: node.mergedAt,
+    mergeable: node.mergeable === 'UNKNOWN' ? null : node.mergeable === 'MERGEABLE',
+    mergeable_state: null, // Not exposed by GraphQL
+    merge_commit_sha: node.mergeCommit?.oid ?? null,
+    comments: node.comments.totalCount,
+    review_comments: 0, // Not exposed by GraphQL
+    commits: node.commits.totalCount,
+    additions: node.additions,
+    deletions: node.deletions,
+    changed_files: node.changedFiles,
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    closed_at: node.closedAt,
+    author_association: node.authorAssociation,
+    review_decision: (node.reviewDecision?.toLowerCase() as PullRequestReviewDecision) ?? null,
+    latest_reviews: latestReviews,
+    checks_state: rollupState ? mapChecksRollupState(rollupState) : null,
+  };
+}
+
+function mapChecksRollupState(
+  state: 'SUCCESS' | 'FAILURE' | 'ERROR' | 'PENDING' | 'EXPECTED',
+): PullRequestChecksState {
+  if (state === 'SUCCESS') return 'success';
+  if (state === 'FAILURE' || state === 'ERROR') return 'failure';
+  return 'pending';
+}
+
+function mapDiscussionNode(node: DiscussionNode): GitHubDiscussion {
+  return {
+    id: node.databaseId,
+    number: node.number,
+    title: node.title,
+    body: node.body || null,
+    state: node.closed ? 'closed' : 'open',
+    state_reason: node.stateReason?.toLowerCase() ?? null,
+    html_url: node.url,
+    user: mapActor(node.author),
+    category: {
+      name: node.category.name,
+      emoji: node.category.emoji,
+      is_answerable: node.category.isAnswerable,
+    },
+    answer_chosen_at: node.answerChosenAt,
+    locked: node.locked,
+    comments: node.comments.totalCount,
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    closed_at: node.closedAt,
+    author_association: node.authorAssociation,
+  };
+}
+
+/**
+ * Get all repositories (user repos + all organization repos) via GraphQL
+ * Same result shape as getAllAccessibleRepos, but fork parents come inline with the fork
+ */
+export async function getAllAccessibleReposGraphQL(
+  currentUserLogin?: string,
+  ctx: GitHubRequestContext = {},
+): Promise<{
+  repos: GitHubRepo[];
+  personalForkParentRepoIds: number[];
+  complete: boolean;
+}> {
+  // Null connections or nodes mean part of the listing errored (partial GraphQL errors)
+  let complete = true;
+  const checked = <TNode>(connection: Connection<TNode> | null): Connection<TNode> | null => {
+    if (!connection || connection.nodes.some((node) => node == null)) {
+      complete = false;
+    }
+    return connection;
+  };
+
+  const viewerQuery = `
+    query ($cursor: String) {
+      viewer {
+        repositories(
+          first: ${PAGE_SIZE}
+          after: $cursor
+          affiliations: [OWNER, COLLABORATOR, ORGANIZATION_MEMBER]
+          orderBy: { field: PUSHED_AT, direction: DESC }
+        ) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ...RepoFields parent { ...RepoFields } }
+        }
+      }
+    }
+    ${REPO_FIELDS}
+  `;
+  const userRepoNodes = await collectPages<RepoNode>(async (cursor) => {
+    const data = await graphqlFetch<{ viewer: { repositories: Connection<RepoNode> } }>(
+      viewerQuery,
+      { cursor },
+      ctx,
+    );
+    return checked(data.viewer.repositories);
+  });
+
+  const orgsQuery = `
+    query ($cursor: String) {
+      viewer {
+        organizations(first: ${PAGE_SIZE}, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes { login }
+        }
+      }
+    }
+  `;
+  const orgs = await collectPages<{ login: string }>(async (cursor) => {
+    const data = await graphqlFetch<{ viewer: { organizations: Connection<{ login: string }> } }>(
+      orgsQuery,
+      { cursor },
+      ctx,
+    );
+    return checked(data.viewer.organizations);
+  });
+
+  const orgReposQuery = `
+    query ($login: String!, $cursor: String) {
+      organization(login: $login) {
+        repositories(first: ${PAGE_SIZE}, after: $cursor, orderBy: { field: PUSHED_AT, direction: DESC }) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ...RepoFields }
+        }
+      }
+    }
+    ${REPO_FIELDS}
+  `;
+  const orgRepoNodes = (
+    await Promise.all(
+      orgs.map((org) =>
+        collectPages<RepoNode>(async (cursor) => {
+          const data = await graphqlFetch<{
+            organization: { repositories: Connection<RepoNode> } | null;
+          }>(orgReposQuery, { login: org.login, cursor }, ctx);
+          return checked(data.organization?.repositories ?? null);
+        }),
+      ),
+    )
+  ).flat();
+
+  const userRepos = userRepoNodes.map(mapRepoNode);
+  const orgRepos = orgRepoNodes.map(mapRepoNode);
+
+  // Resolve original repos for personal forks so PRs on upstreams are discoverable
+  // Use case-insensitive comparison since GitHub usernames are case-insensitive
+  const forkParents =
+    currentUserLogin != null
+      ? userRepos
+          .filter(
+            (repo) =>
+              repo.fork && repo.owner.login.toLowerCase() === currentUserLogin.toLowerCase(),
+          )
+          .map((fork) => fork.parent)
+          .filter((parent): parent is GitHubRepo => parent != null)
+      : [];
+
+  // Combine and deduplicate (user might have forked an org repo)
+  const allRepos = [...userRepos, ...orgRepos, ...forkParents];
+  const uniqueRepos = Array.from(new Map(allRepos.map((repo) => [repo.id, repo])).values());
+
+  return {
+    repos: uniqueRepos,
+    personalForkParentRepoIds: forkParents.map((repo) => repo.id),
+    complete,
+  };
+}
+
+/**
+ * Get contribution info for many repos at once
+ * Batches repos into aliased queries that read the user's commit history on the default branch
+ * @param userNodeId GraphQL node ID of the authenticated user (REST user.node_id)
+ */
+export async function getReposContributionGraphQL(
+  repos: Array<{ id: number; full_name: string }>,
+  userNodeId: string,
+  ctx: GitHubRequestContext = {},
+): Promise<Map<number, RepoContribution>> {
+  const result = new Map<number, RepoContribution>();
+
+  for (let start = 0; start < repos.length; start += CONTRIBUTION_BATCH_SIZE) {
+    const batch = repos.slice(start, start + CONTRIBUTION_BATCH_SIZE);
+    const variables: Record<string, unknown> = { authorId: userNodeId };
+    const variableDefs: string[] = ['$authorId: ID!'];
+    const selections: string[] = [];
+
+    batch.forEach((repo, index) => {
+      const [owner, name] = repo.full_name.split('/');
+      variables[`owner${index}`] = owner;
+      variables[`name${index}`] = name;
+      variableDefs.push(`$owner${index}: String!`, `$name${index}: String!`);
+      selections.push(`
+        r${index}: repository(owner: $owner${index}, name: $name${index}) {
+          defaultBranchRef {
+            target {
+              ... on Commit {
+                history(first: 1, author: { id: $authorId }) {
+                  totalCount
+                  nodes { authoredDate }
+                }
+              }
+            }
+          }
+        }
+      `);
+    });
+
+    const query = `query (${variableDefs.join(', ')}) { ${selections.join('\n')} }`;
+    const data = await graphqlFetch<
+      Record<
+        string,
+        {
+          defaultBranchRef: {
+            target: {
+              history?: { totalCount: number; nodes: Array<{ authoredDate: string }> };
+            };
+          } | null;
+        } | null
+      >
+    >(query, variables, ctx);
+
+    batch.forEach((repo, index) => {
+      // Empty repos have no default branch; inaccessible repos come back as null
+      const history = data[`r${index}`]?.defaultBranchRef?.target.history;
+      const meContributing = (history?.totalCount ?? 0) > 0;
+      result.set(repo.id, {
+        meContributing,
+        lastContributedAt: meContributing ? (history?.nodes[0]?.authoredDate ?? null) : null,
+      });
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Get all issues for a repository via GraphQL (PRs are a separate connection, nothing to filter)
+ * @param since Only return issues updated at or after this ISO 8601 time
+ */
+export async function getRepoIssuesGraphQL(
+  owner: string,
+  repo: string,
+  since?: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubIssue[]> {
+  const query = `
+    query ($owner: String!, $name: String!, $since: DateTime, $cursor: String) {
+      repository(owner: $owner, name: $name) {
+        issues(
+          first: ${PAGE_SIZE}
+          after: $cursor
+          filterBy: { since: $since }
+          orderBy: { field: UPDATED_AT, direction: DESC }
+        ) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ...IssueFields }
+        }
+      }
+    }
+    ${ISSUE_FIELDS}
+  `;
+
+  const nodes = await collectPages<IssueNode>(async (cursor) => {
+    const data = await graphqlFetch<{ repository: { issues: Connection<IssueNode> } | null }>(
+      query,
+      { owner, name: repo, since: since ?? null, cursor },
+      ctx,
+    );
+    return requireRepository(data.repository, owner, repo).issues;
+  });
+
+  return nodes.map(mapIssueNode);
+}
+
+/**
+ * Get pull requests for a repository via GraphQL
+ * Fetches open PRs and last 50 closed PRs (sorted by recently updated), like the REST version
+ */
+export async function getRepoPullRequestsGraphQL(
+  owner: string,
+  repo: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubPullRequest[]> {
+  const query = `
+    query ($owner: String!, $name: String!, $states: [PullRequestState!], $first: Int!, $cursor: String) {
+      repository(owner: $owner, name: $name) {
+        pullRequests(
+          first: $first
+          after: $cursor
+          states: $states
+          orderBy: { field: UPDATED_AT, direction: DESC }
+        ) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ...PullRequestFields }
+        }
+      }
+    }
+    ${PULL_REQUEST_FIELDS}
+  `;
+
+  const fetchPage = (states: string[], first: number) => async (cursor: string | null) => {
+    const data = await graphqlFetch<{
+      repository: { pullRequests: Connection<PullRequestNode> } | null;
+    }>(query, { owner, name: repo, states, first, cursor }, ctx);
+    return requireRepository(data.repository, owner, repo).pullRequests;
+  };
+
+  const openNodes = await collectPages(fetchPage(['OPEN'], PAGE_SIZE));
+  const closedNodes = await collectPages(
+    fetchPage(['CLOSED', 'MERGED'], CLOSED_PRS_LIMIT),
+    CLOSED_PRS_LIMIT,
+  );
+
+  return [...openNodes, ...closedNodes].map(mapPullRequestNode);
+}
+
+/**
+ * Get pull requests where the user is involved (author, assignee, or reviewer) via GraphQL
+ * Search returns full PR nodes, so no follow-up request per PR is needed
+ */
+export async function getUserInvolvedPullRequestsGraphQL(
+  owner: string,
+  repo: string,
+  username: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubPullRequest[]> {
+  const query = `
+    query ($search: String!, $cursor: String) {
+      search(query: $search, type: ISSUE, first: ${PAGE_SIZE}, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ... on PullRequest { ...PullRequestFields } }
+      }
+    }
+    ${PULL_REQUEST_FIELDS}
+  `;
+
+  // Narrower queries (author/assignee/review-requested) avoid 1000-result search caps on large repos
+  const baseQuery = `repo:${owner}/${repo} is:pr`;
+  const searches = [
+    `${baseQuery} is:open author:${username}`,
+    `${baseQuery} is:closed author:${username}`,
+    `${baseQuery} is:open assignee:${username}`,
+    `${baseQuery} is:closed assignee:${username}`,
+    `${baseQuery} is:open review-requested:${username}`,
+    `${baseQuery} is:closed review-requested:${username}`,
+  ];
+
+  const prsById = new Map<number, GitHubPullRequest>();
+  for (const search of searches) {
+    const nodes = await collectPages<Partial<PullRequestNode>>(async (cursor) => {
+      const data = await graphqlFetch<{ search: Connection<Partial<PullRequestNode>> }>(
+        query,
+        { search, cursor },
+        ctx,
+      );
+      return data.search;
+    });
+
+    for (const node of nodes) {
+      // Non-PR search hits come back as empty objects
+      if (node.databaseId) {
+        prsById.set(node.databaseId, mapPullRequestNode(node as PullRequestNode));
+      }
+    }
+  }
+
+  return Array.from(prsById.values());
+}
+
+/**
+ * Get the most recently updated discussions for a repository
+ * GraphQL only: REST has no endpoint to list discussions. Repos with Discussions
+ * disabled return an empty connection.
+ */
+export async function getRepoDiscussionsGraphQL(
+  owner: string,
+  repo: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubDiscussion[]> {
+  const query = `
+    query ($owner: String!, $name: String!, $cursor: String) {
+      repository(owner: $owner, name: $name) {
+        discussions(
+          first: ${PAGE_SIZE}
+          after: $cursor
+          orderBy: { field: UPDATED_AT, direction: DESC }
+        ) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ...DiscussionFields }
+        }
+      }
+    }
+    ${DISCUSSION_FIELDS}
+  `;
+
+  const nodes = await collectPages<DiscussionNode>(async (cursor) => {
+    const data = await graphqlFetch<{
+      repository: { discussions: Connection<DiscussionNode> } | null;
+    }>(query, { owner, name: repo, cursor }, ctx);
+    return requireRepository(data.repository, owner, repo).discussions;
+  }, DISCUSSIONS_LIMIT);
+
+  return nodes.map(mapDiscussionNode);
+}
+
+/**
+ * Map a project item; archived and redacted (no access) items are dropped
+ */
+function mapProjectItemNode(node: ProjectItemNode): GitHubProjectItem | null {
+  if (node.isArchived || !node.content) return null;
+
+  if (node.content.__typename === 'DraftIssue') {
+    return {
+      id: node.id,
+      type: 'draft_issue',
+      content_id: null,
+      number: null,
+      title: node.content.title,
+      html_url: null,
+      state: 'open',
+      merged: false,
+      repo_full_name: null,
+      status: node.status?.name ?? null,
+    };
+  }
+
+  return {
+    id: node.id,
+    type: node.content.__typename === 'Issue' ? 'issue' : 'pull_request',
+    content_id: node.content.databaseId,
+    number: node.content.number,
+    title: node.content.title,
+    html_url: node.content.url,
+    state: node.content.state === 'OPEN' ? 'open' : 'closed',
+    merged: node.content.state === 'MERGED',
+    repo_full_name: node.content.repository.nameWithOwner,
+    status: node.status?.name ?? null,
+  };
+}
+
+/**
+ * Get the most recently updated Projects (v2) of an organization, with their items
+ * GraphQL only: Projects v2 have no REST API. Needs the read:project scope.
+ */
+export async function getOrgProjectsGraphQL(
+  org: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubProject[]> {
+  const query = `
+    query ($login: String!, $cursor: String) {
+      organization(login: $login) {
+        projectsV2(
+          first: ${PROJECTS_PAGE_SIZE}
+          after: $cursor
+          orderBy: { field: UPDATED_AT, direction: DESC }
+        ) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            number
+            title
+            shortDescription
+            url
+            closed
+            owner { ... on Organization { login } }
+            items(first: ${PAGE_SIZE}) {
+              pageInfo { hasNextPage endCursor }
+              nodes { ...ProjectItemFields }
+            }
+            createdAt
+            updatedAt
+            closedAt
+          }
+        }
+      }
+    }
+    ${PROJECT_ITEM_FIELDS}
+  `;
+
+  const nodes = await collectPages<ProjectNode>(async (cursor) => {
+    const data = await graphqlFetch<{
+      organization: { projectsV2: Connection<ProjectNode> } | null;
+    }>(query, { login: org, cursor }, ctx);
+    return data.organization?.projectsV2 ?? null;
+  }, PROJECTS_LIMIT);
+
+  const projects: GitHubProject[] = [];
+  for (const node of nodes) {
+    // Big boards don't fit in the first page of items: page through the rest per project
+    const itemNodes = [...node.items.nodes];
+    if (node.items.pageInfo.hasNextPage) {
+      itemNodes.push(
+        ...(await getProjectItemsGraphQL(
+          node.id,
+          node.items.pageInfo.endCursor,
+          PROJECT_ITEMS_LIMIT - itemNodes.length,
+          ctx,
+        )),
+      );
+    }
+
+    projects.push({
+      id: node.id,
+      number: node.number,
+      title: node.title,
+      short_description: node.shortDescription || null,
+      html_url: node.url,
+      closed: node.closed,
+      owner: { login: node.owner.login ?? org },
+      items: itemNodes
+        .map(mapProjectItemNode)
+        .filter((item): item is GitHubProjectItem => item !== null),
+      created_at: node.createdAt,
+      updated_at: node.updatedAt,
+      closed_at: node.closedAt,
+    });
+  }
+
+  return projects;
+}
+
+/**
+ * Get the remaining items of a project, starting after the given cursor
+ */
+async function getProjectItemsGraphQL(
+  projectId: string,
+  startCursor: string | null,
+  limit: number,
+  ctx: GitHubRequestContext = {},
+): Promise<ProjectItemNode[]> {
+  const query = `
+    query ($id: ID!, $cursor: String) {
+      node(id: $id) {
+        ... on ProjectV2 {
+          items(first: ${PAGE_SIZE}, after: $cursor) {
+            pageInfo { hasNextPage endCursor }
+            nodes { ...ProjectItemFields }
+          }
+        }
+      }
+    }
+    ${PROJECT_ITEM_FIELDS}
+  `;
+
+  // collectPages starts without a cursor: resume from the first page's end instead
+  return collectPages<ProjectItemNode>(async (cursor) => {
+    const data = await graphqlFetch<{
+      node: { items: Connection<ProjectItemNode> } | null;
+    }>(query, { id: projectId, cursor: cursor ?? startCursor }, ctx);
+    return data.node?.items ?? null;
+  }, limit);
+}
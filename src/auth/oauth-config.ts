@@ -19,9 +19,18 @@ const isDevelopment = import.meta.env.MODE === 'development';
 const GITHUB_OAUTH_CLIENT_ID_DEV = 'Ov23li6ZFZqbR6ELZ2kW';
 const GITHUB_OAUTH_CLIENT_ID_PROD = 'Ov23liNIryeGDg0Tb6Hg';
 
-// Device Flow endpoints
-const GITHUB_DEVICE_CODE_URL = 'https://github.com/login/device/code';
-const GITHUB_ACCESS_TOKEN_URL = 'https://github.com/login/oauth/access_token';
+// Device Flow endpoints (relative to the web host: github.com or an enterprise host)
+const GITHUB_WEB_HOST = 'github.com';
+const DEVICE_CODE_PATH = '/login/device/code';
+const ACCESS_TOKEN_PATH = '/login/oauth/access_token';
+
+/**
+ * Where to run the Device Flow: github.com by default, or an enterprise host with its own OAuth app
+ */
+export interface DeviceFlowTarget {
+  webHost?: string;
+  clientId?: string;
+}
 
 /**
  * Get the OAuth Client ID for the current environment
@@ -33,13 +42,16 @@ export function getOAuthClientId(): string {
 /**
  * Device Flow: Request a device code from GitHub
  *
+ * @param target Enterprise host and its OAuth client ID (github.com when omitted)
  * @returns Device code response with user_code, verification_uri, etc.
  */
-export async function requestDeviceCode(): Promise<DeviceCodeResponse> {
-  const clientId = getOAuthClientId();
-  const scopes = 'repo read:user read:org';
+export async function requestDeviceCode(
+  target: DeviceFlowTarget = {},
+): Promise<DeviceCodeResponse> {
+  const clientId = target.clientId ?? getOAuthClientId();
+  const scopes = 'repo read:user read:org read:project';
 
-  const response = await fetch(GITHUB_DEVICE_CODE_URL, {
+  const response = await fetch(`https://${target.webHost ?? GITHUB_WEB_HOST}${DEVICE_CODE_PATH}`, {
     method: 'POST',
     headers: {
       Accept: 'application/json',
@@ -62,12 +74,16 @@ export async function requestDeviceCode(): Promise<DeviceCodeResponse> {
  * Device Flow: Poll for access token
  *
  * @param deviceCode The device_code from requestDeviceCode()
+ * @param target Same target that was passed to requestDeviceCode()
  * @returns Access token response or pending/error status
  */
-export async function pollForAccessToken(deviceCode: string): Promise<AccessTokenResponse> {
-  const clientId = getOAuthClientId();
+export async function pollForAccessToken(
+  deviceCode: string,
+  target: DeviceFlowTarget = {},
+): Promise<AccessTokenResponse> {
+  const clientId = target.clientId ?? getOAuthClientId();
 
-  const response = await fetch(GITHUB_ACCESS_TOKEN_URL, {
+  const response = await fetch(`https://${target.webHost ?? GITHUB_WEB_HOST}${ACCESS_TOKEN_PATH}`, {
     method: 'POST',
     headers: {
       Accept: 'application/json',
@@ -7,6 +7,7 @@
 import {
   requestDeviceCode,
   pollForAccessToken,
+  type DeviceFlowTarget,
   type DeviceCodeResponse as _DeviceCodeResponse,
   type AccessTokenResponse as _AccessTokenResponse,
 } from './oauth-config';
@@ -15,6 +16,8 @@ import {
   saveAuthMetadata,
   removeGitHubToken,
   removeAuthMetadata,
+  getEnterpriseHosts,
+  saveEnterpriseHostToken,
 } from '@/src/storage/chrome';
 import { validateToken } from '@/src/api/github';
 import { debugLog } from '@/src/utils/debug';
@@ -30,16 +33,33 @@ export interface DeviceFlowResult {
   interval?: number;
 }
 
+/**
+ * Resolve the Device Flow target for github.com or a registered enterprise host
+ */
+async function getDeviceFlowTarget(enterpriseHost?: string): Promise<DeviceFlowTarget> {
+  if (!enterpriseHost) {
+    return {};
+  }
+
+  const host = (await getEnterpriseHosts()).find((h) => h.webHost === enterpriseHost);
+  if (!host?.oauthClientId) {
+    throw new Error(`No OAuth app configured for ${enterpriseHost}`);
+  }
+
+  return { webHost: host.webHost, clientId: host.oauthClientId };
+}
+
 /**
  * Start Device Flow: Request device code from GitHub
  *
+ * @param enterpriseHost Web host of an enterprise instance (github.com when omitted)
  * @returns Device code info to show to user
  */
-export async function startDeviceFlow(): Promise<DeviceFlowResult> {
+export async function startDeviceFlow(enterpriseHost?: string): Promise<DeviceFlowResult> {
   try {
     void debugLog('[Device Flow] Requesting device code...');
 
-    const deviceCodeResponse = await requestDeviceCode();
+    const deviceCodeResponse = await requestDeviceCode(await getDeviceFlowTarget(enterpriseHost));
 
     void debugLog('[Device Flow] Device code received');
     void debugLog('[Device Flow] User code:', deviceCodeResponse.user_code);
@@ -72,6 +92,7 @@ export async function startDeviceFlow(): Promise<DeviceFlowResult> {
  * @param interval Polling interval in seconds
  * @param expiresIn Expiration time in seconds
  * @param onProgress Callback for progress updates
+ * @param enterpriseHost Same host that was passed to startDeviceFlow()
  * @returns Access token or error
  */
 export async function completeDeviceFlow(
@@ -79,6 +100,7 @@ export async function completeDeviceFlow(
   interval: number,
   expiresIn: number,
   onProgress?: (status: string) => void,
+  enterpriseHost?: string,
 ): Promise<DeviceFlowResult> {
   const startTime = Date.now();
   const expirationTime = startTime + expiresIn * 1000;
@@ -92,12 +114,35 @@ export async function completeDeviceFlow(
     try {
       onProgress?.('Waiting for authorization...');
 
-      const response = await pollForAccessToken(deviceCode);
+      const response = await pollForAccessToken(
+        deviceCode,
+        await getDeviceFlowTarget(enterpriseHost),
+      );
 
       // Success - got access token
       if (response.access_token) {
         void debugLog('[Device Flow] Access token received!');
 
+        // Enterprise tokens are stored on the host entry, not as the github.com token
+        if (enterpriseHost) {
+          await saveEnterpriseHostToken(enterpriseHost, response.access_token, 'oauth');
+          if (!(await validateToken({ host: enterpriseHost }))) {
+            console.error('[Device Flow] Token validation failed');
+            await saveEnterpriseHostToken(enterpriseHost, null);
+            return {
+              success: false,
+              error: 'Token validation failed',
+            };
+          }
+
+          void debugLog(`[Device Flow] Authentication successful for ${enterpriseHost}!`);
+
+          return {
+            success: true,
+            token: response.access_token,
+          };
+        }
+
         // Save token
         await saveGitHubToken(response.access_token);
 
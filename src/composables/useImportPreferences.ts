@@ -4,11 +4,24 @@
 
 import { ref, onMounted } from 'vue';
 import { getImportPreferences, type ImportPreferences } from '@/src/storage/chrome';
+import { DEFAULT_CONCURRENCY } from '@/src/utils/pool';
 
 export function useImportPreferences() {
   const preferences = ref<ImportPreferences>({
     importIssues: true,
     importPullRequests: true,
+    importDiscussions: true,
+    importReleases: true,
+    importTags: false,
+    importMilestones: true,
+    importWorkflowRuns: true,
+    importGists: true,
+    importProjects: true,
+    importStarred: false,
+    importNotifications: true,
+    importBodies: false,
+    importComments: false,
+    syncConcurrency: DEFAULT_CONCURRENCY,
   });
   const loading = ref(true);
 
@@ -4,12 +4,13 @@
 import { ref, onMounted, onUnmounted } from 'vue';
 import { useBackgroundMessage } from './useBackgroundMessage';
 import { MessageType } from '@/src/messages/types';
-import type { ImportStatus } from '@/src/import/engine';
+import type { ImportStatus, SyncSchedule } from '@/src/import/engine';
 
 export function useImportStatus(pollInterval = 5000) {
   const { sendMessage } = useBackgroundMessage();
 
   const status = ref<ImportStatus | null>(null);
+  const schedule = ref<SyncSchedule | null>(null); // When the scheduled syncs run next
   const loading = ref(true);
   const error = ref<string | null>(null);
 
@@ -18,6 +19,7 @@ export function useImportStatus(pollInterval = 5000) {
   async function fetchStatus() {
     try {
       status.value = await sendMessage<ImportStatus>(MessageType.GET_IMPORT_STATUS);
+      schedule.value = await sendMessage<SyncSchedule>(MessageType.GET_SYNC_SCHEDULE);
       error.value = null;
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Failed to fetch import status';
@@ -54,6 +56,7 @@ export function useImportStatus(pollInterval = 5000) {
 
   return {
     status,
+    schedule,
     loading,
     error,
     fetchStatus,
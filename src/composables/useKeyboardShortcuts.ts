@@ -13,6 +13,7 @@ export interface KeyboardActions {
   exitFocusedMode: () => void;
   toggleFilter: (index: 1 | 2 | 3) => void;
   toggleHelp: () => void;
+  markRead: () => void;
 }
 
 export function useKeyboardShortcuts(actions: KeyboardActions, isVisible: () => boolean) {
@@ -52,6 +53,15 @@ export function useKeyboardShortcuts(actions: KeyboardActions, isVisible: () =>
         actions.toggleFilter(filterIndex);
         return;
       }
+
+      // Mark the focused notification as read: Alt+M
+      if (e.code === 'KeyM') {
+        debugLogSync('[Git Look-Around] Shortcut: mark as read');
+        e.preventDefault();
+        e.stopPropagation();
+        actions.markRead();
+        return;
+      }
     }
 
     // Check if user is typing in an input field, textarea, or contenteditable element
@@ -4,12 +4,13 @@
 import { ref, onMounted, onUnmounted } from 'vue';
 import { useBackgroundMessage } from './useBackgroundMessage';
 import { MessageType } from '@/src/messages/types';
-import type { RateLimitInfo } from '@/src/api/github';
+import type { RateLimitInfo, RequestPause } from '@/src/api/github';
 
 export function useRateLimit(pollInterval = 5000) {
   const { sendMessage } = useBackgroundMessage();
 
   const rateLimit = ref<RateLimitInfo | null>(null);
+  const syncPause = ref<RequestPause | null>(null); // Why requests are currently on hold, if they are
   const loading = ref(true);
 
   let intervalId: number | null = null;
@@ -17,6 +18,7 @@ export function useRateLimit(pollInterval = 5000) {
   async function fetchRateLimit() {
     try {
       rateLimit.value = await sendMessage<RateLimitInfo | null>(MessageType.GET_RATE_LIMIT);
+      syncPause.value = await sendMessage<RequestPause | null>(MessageType.GET_SYNC_PAUSE);
     } catch (err) {
       console.error('[useRateLimit] Error:', err);
     } finally {
@@ -49,6 +51,7 @@ export function useRateLimit(pollInterval = 5000) {
 
   return {
     rateLimit,
+    syncPause,
     loading,
     getRateLimitStatus,
     fetchRateLimit,
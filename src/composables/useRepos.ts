@@ -14,8 +14,8 @@ export function useRepos() {
   const error = ref<string | null>(null);
 
   // Track issue/PR counts for each repo
-  const repoCounts = ref<Record<number, { issues: number; prs: number }>>({});
-  const repoSearchIndex = ref<Record<number, { issues: string[]; prs: string[] }>>({});
+  const repoCounts = ref<Record<string, { issues: number; prs: number }>>({});
+  const repoSearchIndex = ref<Record<string, { issues: string[]; prs: string[] }>>({});
 
   /**
    * Sort repos by priority:
@@ -89,8 +89,8 @@ export function useRepos() {
    * Non-indexed repos don't need counts since they don't show PRs/issues
    */
   async function fetchCounts() {
-    const counts: Record<number, { issues: number; prs: number }> = {};
-    const searchIndex: Record<number, { issues: string[]; prs: string[] }> = {};
+    const counts: Record<string, { issues: number; prs: number }> = {};
+    const searchIndex: Record<string, { issues: string[]; prs: string[] }> = {};
 
     // Only fetch counts for indexed repos to avoid unnecessary API calls
     const reposToFetch = repos.value.filter((repo) => repo.indexed !== false);
@@ -99,21 +99,21 @@ export function useRepos() {
       reposToFetch.map(async (repo) => {
         try {
           const [issues, prs] = await Promise.all([
-            sendMessage<IssueRecord[]>(MessageType.GET_ISSUES_BY_REPO, repo.id),
-            sendMessage<PullRequestRecord[]>(MessageType.GET_PRS_BY_REPO, repo.id),
+            sendMessage<IssueRecord[]>(MessageType.GET_ISSUES_BY_REPO, repo.key),
+            sendMessage<PullRequestRecord[]>(MessageType.GET_PRS_BY_REPO, repo.key),
           ]);
-          counts[repo.id] = {
+          counts[repo.key] = {
             issues: issues.length,
             prs: prs.length,
           };
-          searchIndex[repo.id] = {
+          searchIndex[repo.key] = {
             issues: issues.map((issue) => (issue.title || '').toLowerCase()),
             prs: prs.map((pr) => (pr.title || '').toLowerCase()),
           };
         } catch (err) {
-          console.error(`[useRepos] Error loading counts for repo ${repo.id}:`, err);
-          counts[repo.id] = { issues: 0, prs: 0 };
-          searchIndex[repo.id] = { issues: [], prs: [] };
+          console.error(`[useRepos] Error loading counts for repo ${repo.full_name}:`, err);
+          counts[repo.key] = { issues: 0, prs: 0 };
+          searchIndex[repo.key] = { issues: [], prs: [] };
         }
       }),
     );
@@ -133,13 +133,13 @@ export function useRepos() {
   /**
    * Add repo to index (user clicked + button)
    */
-  async function addRepoToIndex(repoId: number) {
+  async function addRepoToIndex(repoKey: string) {
     try {
-      await sendMessage(MessageType.SET_REPO_INDEXED, { repoId, indexed: true });
+      await sendMessage(MessageType.SET_REPO_INDEXED, { repoKey, indexed: true });
       // Reload repos to reflect changes
       await fetchRepos();
     } catch (err) {
-      console.error(`[useRepos] Error adding repo ${repoId} to index:`, err);
+      console.error(`[useRepos] Error adding repo ${repoKey} to index:`, err);
       throw err;
     }
   }
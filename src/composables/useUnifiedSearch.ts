@@ -1,22 +1,52 @@
 /**
- * Composable for unified search across repos, PRs, and issues
+ * Composable for unified search across repos (with their PRs, issues, discussions, releases,
+ * milestones and workflow runs), gists and projects
  * Returns a flat list of search results with type-based weighting
  */
 import { ref, computed, type Ref } from 'vue';
-import type { RepoRecord, IssueRecord, PullRequestRecord } from '@/src/types';
-
-export type SearchResultType = 'repo' | 'pr' | 'issue' | 'skeleton';
+import type {
+  RepoRecord,
+  IssueRecord,
+  PullRequestRecord,
+  DiscussionRecord,
+  ReleaseRecord,
+  MilestoneRecord,
+  WorkflowRunRecord,
+  GistRecord,
+  ProjectRecord,
+  NotificationRecord,
+  PullRequestChecksState,
+  PullRequestReviewDecision,
+  PullRequestReview,
+} from '@/src/types';
+import { recordKey } from '@/src/utils/recordKey';
+
+export type SearchResultType =
+  | 'repo'
+  | 'pr'
+  | 'issue'
+  | 'discussion'
+  | 'release'
+  | 'milestone'
+  | 'workflow_run'
+  | 'gist'
+  | 'project'
+  | 'project_item' // Draft issue inside a project (only listed when a project is focused)
+  | 'branch' // Only built by the palette in focused repo mode
+  | 'file' // Only built by the palette's file finder (focused repo mode)
+  | 'notification' // Unread notification thread (only listed in the palette's inbox)
+  | 'skeleton';
 
 export interface SearchResultItem {
   type: SearchResultType;
-  id: string; // Unique key: `${type}-${entity_id}`
-  entityId: number; // Original entity ID
+  id: string; // Unique key: `${type}-${entityKey}`
+  entityKey: string; // Store key of the entity ("<host>:<id>"; empty for project drafts)
   title: string;
   url: string;
-  repoId?: number; // For PRs/issues - parent repo ID
-  repoName?: string; // For PRs/issues - parent repo full_name
-  number?: number; // For PRs/issues - issue/PR number
-  state?: 'open' | 'closed'; // For PRs/issues
+  repoKey?: string; // For PRs/issues/discussions - parent repo key
+  repoName?: string; // For PRs/issues/discussions - parent repo full_name
+  number?: number; // For PRs/issues/discussions - issue/PR/discussion number
+  state?: 'open' | 'closed'; // For PRs/issues/discussions
   user?: {
     login: string;
     avatar_url: string;
@@ -28,13 +58,58 @@ export interface SearchResultItem {
   // PR-specific
   draft?: boolean;
   merged?: boolean;
+  reviewDecision?: PullRequestReviewDecision | null;
+  reviews?: PullRequestReview[]; // Latest review of each reviewer
+  checksState?: PullRequestChecksState | null; // Combined CI state of the head commit
+  // Discussion-specific
+  category?: string;
+  answered?: boolean;
+  // Release-specific
+  tagName?: string;
+  prerelease?: boolean;
+  // Milestone-specific (milestoneNumber is also set on the issues/PRs of a milestone)
+  milestoneNumber?: number;
+  dueOn?: number;
+  openCount?: number;
+  closedCount?: number;
+  // Workflow run-specific (branch is also set on branch results)
+  workflowName?: string;
+  branch?: string;
+  runStatus?: string; // Conclusion once completed, status ("queued", "in_progress") before
+  failing?: boolean; // Latest run of its workflow on its branch, and it failed
+  onMyPr?: boolean; // Ran on the branch of one of my open PRs
+  // Gist-specific
+  files?: string[];
+  // Branch-specific
+  isDefaultBranch?: boolean;
+  linkedPr?: {
+    number: number;
+    url: string;
+    state: 'open' | 'closed';
+    merged: boolean;
+  };
+  // Project-specific (projectStatus is also set on the issues/PRs listed inside a project)
+  projectKey?: string;
+  projectOwner?: string;
+  itemCount?: number;
+  projectStatus?: string;
+  // File-specific (title is the file name)
+  path?: string;
+  // Notification-specific (number, state and merged come from the subject when it is an issue/PR)
+  notificationKey?: string;
+  reason?: string; // Why the thread is in the inbox: review_requested, mention, assign...
+  subjectType?: string; // PullRequest, Issue, Discussion, Release, CheckSuite...
+  // Full-text match: where the query appears in the body/comments (only when the title doesn't match)
+  snippet?: string;
   // Metadata for scoring
   score: number; // Search relevance score (higher = better)
   lastVisitedAt?: number;
   updatedAt?: number;
   closedAt?: number; // Timestamp when PR/Issue was closed (null if open)
+  // Signed-in accounts that can see this item (from its repo); used for badges and filtering
+  accounts?: string[];
   // Flags for sorting
-  isMine?: boolean; // Authored by current user (PR/Issue) or Owned by current user (Repo)
+  isMine?: boolean; // Authored by one of my accounts (PR/Issue) or Owned by one (Repo)
   recentlyContributedByMe?: boolean; // Contributed to in last 2 months
 }
 
@@ -42,10 +117,19 @@ export interface SearchableEntity {
   repo: RepoRecord;
   issues: IssueRecord[];
   prs: PullRequestRecord[];
+  discussions: DiscussionRecord[];
+  releases: ReleaseRecord[];
+  milestones: MilestoneRecord[];
+  workflowRuns: WorkflowRunRecord[];
 }
 
 const TWO_MONTHS_MS = 2 * 30 * 24 * 60 * 60 * 1000;
 
+const FAILED_RUN_CONCLUSIONS = new Set(['failure', 'timed_out', 'startup_failure']);
+
+// Body/comment matches rank below any title match (the weakest scores 100)
+const FULL_TEXT_MATCH_SCORE = 50;
+
 /**
  * Extract prefix from a repo name (everything before first hyphen)
  * Examples:
@@ -228,8 +312,131 @@ function calculateMatchScore(text: string, query: string, commonPrefixes: string
   return 0; // No match
 }
 
+/**
+ * Score a repo file path for the palette's file finder
+ * The file name is scored like any other title; a match elsewhere in the path counts half.
+ * Paths that only contain the query's characters in order (e.g. "usrch" in "useSearch.ts") still
+ * match, below every substring match.
+ */
+export function scoreFilePath(path: string, query: string): number {
+  const fileName = path.slice(path.lastIndexOf('/') + 1);
+  const score = Math.max(
+    calculateMatchScore(fileName, query),
+    calculateMatchScore(path, query) / 2,
+  );
+  // Like substring matches, the fuzzy fallback is too noisy for single characters
+  if (score > 0 || query.length < 2) return score;
+
+  // Fuzzy fallback: every query character appears in order
+  const lowerPath = path.toLowerCase();
+  let position = 0;
+  for (const char of query.toLowerCase()) {
+    position = lowerPath.indexOf(char, position) + 1;
+    if (position === 0) return 0;
+  }
+  return 10;
+}
+
+/**
+ * List the items of a focused project, in board order
+ * Issues and PRs already in the index are taken from their records (state, author, visits), so
+ * they look and sort like everywhere else; the rest falls back to what the project knows.
+ */
+export function buildProjectItemResults(
+  project: ProjectRecord,
+  linkedIssues: Map<string, IssueRecord>,
+  linkedPrs: Map<string, PullRequestRecord>,
+): SearchResultItem[] {
+  return project.items.map((item): SearchResultItem => {
+    const projectStatus = item.status ?? undefined;
+
+    if (item.type === 'draft_issue' || item.content_id === null) {
+      return {
+        type: 'project_item',
+        id: `project_item-${item.id}`,
+        entityKey: '',
+        title: item.title,
+        url: project.html_url, // Drafts only open inside the project
+        state: item.state,
+        projectKey: project.key,
+        projectStatus,
+        score: 0,
+      };
+    }
+
+    const key = recordKey(project.host, item.content_id);
+    const issue = item.type === 'issue' ? linkedIssues.get(key) : undefined;
+    const pr = item.type === 'pull_request' ? linkedPrs.get(key) : undefined;
+    const record = issue ?? pr;
+    return {
+      type: item.type === 'issue' ? 'issue' : 'pr',
+      id: `${item.type === 'issue' ? 'issue' : 'pr'}-${key}`,
+      entityKey: key,
+      title: record?.title ?? item.title,
+      url: record?.html_url ?? item.html_url ?? project.html_url,
+      repoKey: record?.repo_key,
+      repoName: item.repo_full_name ?? undefined,
+      number: item.number ?? undefined,
+      state: record?.state ?? item.state,
+      user: record?.user,
+      assignee: record?.assignee,
+      draft: pr?.draft,
+      merged: pr?.merged ?? item.merged,
+      reviewDecision: pr?.review_decision,
+      reviews: pr?.latest_reviews,
+      checksState: pr?.checks_state,
+      projectKey: project.key,
+      projectStatus,
+      score: 0,
+      lastVisitedAt: record?.last_visited_at,
+      updatedAt: record ? new Date(record.updated_at).getTime() : undefined,
+      closedAt: record?.closed_at ? new Date(record.closed_at).getTime() : undefined,
+    };
+  });
+}
+
+/**
+ * List unread notification threads, most recently updated first
+ * Subjects already in the index are taken from their records, so the row shows their live state
+ */
+export function buildNotificationResults(
+  notifications: NotificationRecord[],
+  linkedIssues: Map<string, IssueRecord>,
+  linkedPrs: Map<string, PullRequestRecord>,
+): SearchResultItem[] {
+  return notifications
+    .filter((notification) => notification.unread)
+    .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+    .map((notification): SearchResultItem => {
+      const issue =
+        notification.issue_key !== undefined ? linkedIssues.get(notification.issue_key) : undefined;
+      const pr = notification.pr_key !== undefined ? linkedPrs.get(notification.pr_key) : undefined;
+      const record = issue ?? pr;
+      return {
+        type: 'notification',
+        id: `notification-${notification.key}`,
+        entityKey: notification.key,
+        title: notification.subject.title,
+        url: record?.html_url ?? notification.html_url,
+        repoKey: recordKey(notification.host, notification.repository.id),
+        repoName: notification.repository.full_name,
+        number: notification.subject_number,
+        state: record?.state,
+        merged: pr?.merged,
+        notificationKey: notification.key,
+        reason: notification.reason,
+        subjectType: notification.subject.type,
+        score: 0,
+        updatedAt: new Date(notification.updated_at).getTime(),
+        accounts: notification.account ? [notification.account] : undefined,
+      };
+    });
+}
+
 export function useUnifiedSearch(currentUsername?: Ref<string | undefined> | string) {
   const allEntities = ref<SearchableEntity[]>([]);
+  const allGists = ref<GistRecord[]>([]);
+  const allProjects = ref<ProjectRecord[]>([]);
   const commonPrefixes = ref<string[]>([]);
   const dominantOrgs = ref<string[]>([]); // Organizations that represent ≥80% of repos
   const orgFilterPreferences = ref<Record<string, boolean>>({}); // Organization filter preferences
@@ -251,17 +458,22 @@ export function useUnifiedSearch(currentUsername?: Ref<string | undefined> | str
     return Date.now() - date < TWO_MONTHS_MS;
   }
 
-  function isMyPullRequest(pr: PullRequestRecord, currentUser?: string): boolean {
-    if (!currentUser) return false;
-    // Use case-insensitive comparison since GitHub usernames are case-insensitive
-    const currentUserLower = currentUser.toLowerCase();
-    if (pr.user.login.toLowerCase() === currentUserLower) return true;
-    if (pr.assignee?.login.toLowerCase() === currentUserLower) return true;
-    if (pr.assignees?.some((assignee) => assignee.login.toLowerCase() === currentUserLower))
-      return true;
-    if (
-      pr.requested_reviewers?.some((reviewer) => reviewer.login.toLowerCase() === currentUserLower)
-    )
+  /**
+   * Logins that count as "me" for a repo: the current user plus every account that imported it
+   * Lowercased since GitHub usernames are case-insensitive
+   */
+  function getMyLogins(repo: RepoRecord, currentUser?: string): Set<string> {
+    const logins = new Set((repo.accounts ?? []).map((login) => login.toLowerCase()));
+    if (currentUser) logins.add(currentUser.toLowerCase());
+    return logins;
+  }
+
+  function isMyPullRequest(pr: PullRequestRecord, myLogins: Set<string>): boolean {
+    if (myLogins.size === 0) return false;
+    if (myLogins.has(pr.user.login.toLowerCase())) return true;
+    if (pr.assignee && myLogins.has(pr.assignee.login.toLowerCase())) return true;
+    if (pr.assignees?.some((assignee) => myLogins.has(assignee.login.toLowerCase()))) return true;
+    if (pr.requested_reviewers?.some((reviewer) => myLogins.has(reviewer.login.toLowerCase())))
       return true;
     return false;
   }
@@ -291,8 +503,12 @@ export function useUnifiedSearch(currentUsername?: Ref<string | undefined> | str
 
   /**
    * Build a flat list of all searchable items
+   * @param fullTextMatches Snippets by result ID of the issues/PRs whose body or comments match
    */
-  function buildSearchResults(query: string = ''): SearchResultItem[] {
+  function buildSearchResults(
+    query: string = '',
+    fullTextMatches: Map<string, string> = new Map(),
+  ): SearchResultItem[] {
     const results: SearchResultItem[] = [];
     const normalizedQuery = query.trim().toLowerCase();
     const currentUser = username.value;
@@ -301,13 +517,15 @@ export function useUnifiedSearch(currentUsername?: Ref<string | undefined> | str
     //const isShortQuery = normalizedQuery.length > 0 && normalizedQuery.length <= 2;
 
     for (const entity of allEntities.value) {
-      const { repo, issues, prs } = entity;
+      const { repo, issues, prs, discussions, releases, milestones, workflowRuns } = entity;
 
       // Filter by organization preferences
       if (!shouldIncludeRepo(repo.full_name)) {
-        continue; // Skip this entire entity (repo, issues, PRs)
+        continue; // Skip this entire entity (repo and everything in it)
       }
 
+      const myLogins = getMyLogins(repo, currentUser);
+
       // Calculate repo match score
       // Check if we should ignore org name for matching
       let repoNameForMatching = repo.full_name;
@@ -337,17 +555,16 @@ export function useUnifiedSearch(currentUsername?: Ref<string | undefined> | str
       if (!normalizedQuery || repoMatchScore > 0) {
         results.push({
           type: 'repo',
-          id: `repo-${repo.id}`,
-          entityId: repo.id,
+          id: `repo-${repo.key}`,
+          entityKey: repo.key,
           title: repo.full_name,
           url: repo.html_url,
           score: repoMatchScore,
           lastVisitedAt: repo.last_visited_at,
           updatedAt: repo.pushed_at ? new Date(repo.pushed_at).getTime() : undefined,
           state: 'open', // Repos are always "open"
-          isMine: currentUser
-            ? repo.owner.login.toLowerCase() === currentUser.toLowerCase()
-            : false,
+          accounts: repo.accounts,
+          isMine: myLogins.has(repo.owner.login.toLowerCase()),
           recentlyContributedByMe: isRecent(repo.last_contributed_at),
         });
       }
@@ -357,16 +574,22 @@ export function useUnifiedSearch(currentUsername?: Ref<string | undefined> | str
         // Don't use common prefixes for PRs - they're for repo naming conventions, not PR titles
         const prTitleScore = calculateMatchScore(pr.title, normalizedQuery, []);
         const prNumberMatch = normalizedQuery && pr.number.toString().includes(normalizedQuery);
-
-        if (!normalizedQuery || prTitleScore > 0 || prNumberMatch) {
-          const matchScore = prNumberMatch ? 800 : prTitleScore;
+        const prSnippet = fullTextMatches.get(`pr-${pr.key}`);
+        const prBodyMatch = !prTitleScore && !prNumberMatch && prSnippet !== undefined;
+
+        if (!normalizedQuery || prTitleScore > 0 || prNumberMatch || prBodyMatch) {
+          const matchScore = prNumberMatch
+            ? 800
+            : prBodyMatch
+              ? FULL_TEXT_MATCH_SCORE
+              : prTitleScore;
           results.push({
             type: 'pr',
-            id: `pr-${pr.id}`,
-            entityId: pr.id,
+            id: `pr-${pr.key}`,
+            entityKey: pr.key,
             title: pr.title,
             url: pr.html_url,
-            repoId: repo.id,
+            repoKey: repo.key,
             repoName: repo.full_name,
             number: pr.number,
             state: pr.state,
@@ -374,11 +597,17 @@ export function useUnifiedSearch(currentUsername?: Ref<string | undefined> | str
             assignee: pr.assignee,
             draft: pr.draft,
             merged: pr.merged,
+            reviewDecision: pr.review_decision,
+            reviews: pr.latest_reviews,
+            checksState: pr.checks_state,
+            milestoneNumber: pr.milestone?.number,
+            snippet: prBodyMatch ? prSnippet : undefined,
             score: matchScore,
             lastVisitedAt: pr.last_visited_at,
             updatedAt: new Date(pr.updated_at).getTime(),
             closedAt: pr.closed_at ? new Date(pr.closed_at).getTime() : undefined,
-            isMine: isMyPullRequest(pr, currentUser),
+            accounts: repo.accounts,
+            isMine: isMyPullRequest(pr, myLogins),
             recentlyContributedByMe: false, // We don't track per-PR contribution dates yet
           });
         }
@@ -390,32 +619,235 @@ export function useUnifiedSearch(currentUsername?: Ref<string | undefined> | str
         const issueTitleScore = calculateMatchScore(issue.title, normalizedQuery, []);
         const issueNumberMatch =
           normalizedQuery && issue.number.toString().includes(normalizedQuery);
-
-        if (!normalizedQuery || issueTitleScore > 0 || issueNumberMatch) {
-          const matchScore = issueNumberMatch ? 800 : issueTitleScore;
+        const issueSnippet = fullTextMatches.get(`issue-${issue.key}`);
+        const issueBodyMatch = !issueTitleScore && !issueNumberMatch && issueSnippet !== undefined;
+
+        if (!normalizedQuery || issueTitleScore > 0 || issueNumberMatch || issueBodyMatch) {
+          const matchScore = issueNumberMatch
+            ? 800
+            : issueBodyMatch
+              ? FULL_TEXT_MATCH_SCORE
+              : issueTitleScore;
           results.push({
             type: 'issue',
-            id: `issue-${issue.id}`,
-            entityId: issue.id,
+            id: `issue-${issue.key}`,
+            entityKey: issue.key,
             title: issue.title,
             url: issue.html_url,
-            repoId: repo.id,
+            repoKey: repo.key,
             repoName: repo.full_name,
             number: issue.number,
             state: issue.state,
             user: issue.user,
             assignee: issue.assignee,
+            milestoneNumber: issue.milestone?.number,
+            snippet: issueBodyMatch ? issueSnippet : undefined,
             score: matchScore,
             lastVisitedAt: issue.last_visited_at,
             updatedAt: new Date(issue.updated_at).getTime(),
             closedAt: issue.closed_at ? new Date(issue.closed_at).getTime() : undefined,
-            isMine: currentUser
-              ? issue.user.login.toLowerCase() === currentUser.toLowerCase()
-              : false,
+            accounts: repo.accounts,
+            isMine: myLogins.has(issue.user.login.toLowerCase()),
             recentlyContributedByMe: false, // We don't track per-issue contribution dates yet
           });
         }
       }
+
+      // Add discussions
+      for (const discussion of discussions) {
+        const discussionTitleScore = calculateMatchScore(discussion.title, normalizedQuery, []);
+        const discussionNumberMatch =
+          normalizedQuery && discussion.number.toString().includes(normalizedQuery);
+
+        if (!normalizedQuery || discussionTitleScore > 0 || discussionNumberMatch) {
+          const matchScore = discussionNumberMatch ? 800 : discussionTitleScore;
+          results.push({
+            type: 'discussion',
+            id: `discussion-${discussion.key}`,
+            entityKey: discussion.key,
+            title: discussion.title,
+            url: discussion.html_url,
+            repoKey: repo.key,
+            repoName: repo.full_name,
+            number: discussion.number,
+            state: discussion.state,
+            user: discussion.user,
+            category: discussion.category.name,
+            answered: discussion.answer_chosen_at !== null,
+            score: matchScore,
+            lastVisitedAt: discussion.last_visited_at,
+            updatedAt: new Date(discussion.updated_at).getTime(),
+            closedAt: discussion.closed_at ? new Date(discussion.closed_at).getTime() : undefined,
+            accounts: repo.accounts,
+            isMine: myLogins.has(discussion.user.login.toLowerCase()),
+            recentlyContributedByMe: false,
+          });
+        }
+      }
+
+      // Add releases (matched by tag name or release title)
+      for (const release of releases) {
+        const releaseScore = Math.max(
+          calculateMatchScore(release.tag_name, normalizedQuery, []),
+          release.name ? calculateMatchScore(release.name, normalizedQuery, []) : 0,
+        );
+
+        if (!normalizedQuery || releaseScore > 0) {
+          const publishedAt = release.published_at ?? release.created_at;
+          results.push({
+            type: 'release',
+            id: `release-${release.key}`,
+            entityKey: release.key,
+            title: release.name || release.tag_name,
+            url: release.html_url,
+            repoKey: repo.key,
+            repoName: repo.full_name,
+            user: release.author ?? undefined,
+            tagName: release.tag_name,
+            prerelease: release.prerelease,
+            score: releaseScore,
+            lastVisitedAt: release.last_visited_at,
+            updatedAt: publishedAt ? new Date(publishedAt).getTime() : undefined,
+            accounts: repo.accounts,
+            isMine: !!release.author && myLogins.has(release.author.login.toLowerCase()),
+            recentlyContributedByMe: false,
+          });
+        }
+      }
+
+      // Add milestones (matched by title)
+      for (const milestone of milestones) {
+        const milestoneScore = calculateMatchScore(milestone.title, normalizedQuery, []);
+
+        if (!normalizedQuery || milestoneScore > 0) {
+          results.push({
+            type: 'milestone',
+            id: `milestone-${milestone.key}`,
+            entityKey: milestone.key,
+            title: milestone.title,
+            url: milestone.html_url,
+            repoKey: repo.key,
+            repoName: repo.full_name,
+            state: milestone.state,
+            milestoneNumber: milestone.number,
+            dueOn: milestone.due_on ? new Date(milestone.due_on).getTime() : undefined,
+            openCount: milestone.open_issues,
+            closedCount: milestone.closed_issues,
+            score: milestoneScore,
+            updatedAt: new Date(milestone.updated_at).getTime(),
+            closedAt: milestone.closed_at ? new Date(milestone.closed_at).getTime() : undefined,
+            accounts: repo.accounts,
+            isMine: false,
+            recentlyContributedByMe: false,
+          });
+        }
+      }
+
+      // Add workflow runs (matched by workflow name, branch, status or title)
+      const myPRBranches = new Set(
+        prs
+          .filter((pr) => pr.state === 'open' && myLogins.has(pr.user.login.toLowerCase()))
+          .map((pr) => pr.head.ref),
+      );
+      // Only the latest run of a workflow on a branch decides whether it is failing
+      const latestRuns = new Map<string, WorkflowRunRecord>();
+      for (const run of workflowRuns) {
+        const key = `${run.workflow_id}:${run.head_branch}`;
+        const latest = latestRuns.get(key);
+        if (!latest || run.created_at > latest.created_at) {
+          latestRuns.set(key, run);
+        }
+      }
+
+      for (const run of workflowRuns) {
+        const runStatus = run.conclusion ?? run.status ?? undefined;
+        const runScore = Math.max(
+          run.name ? calculateMatchScore(run.name, normalizedQuery, []) : 0,
+          run.head_branch ? calculateMatchScore(run.head_branch, normalizedQuery, []) : 0,
+          runStatus ? calculateMatchScore(runStatus, normalizedQuery, []) : 0,
+          calculateMatchScore(run.display_title, normalizedQuery, []),
+        );
+
+        if (!normalizedQuery || runScore > 0) {
+          const onMyPr = run.head_branch !== null && myPRBranches.has(run.head_branch);
+          const isLatest = latestRuns.get(`${run.workflow_id}:${run.head_branch}`) === run;
+          results.push({
+            type: 'workflow_run',
+            id: `workflow_run-${run.key}`,
+            entityKey: run.key,
+            title: run.display_title,
+            url: run.html_url,
+            repoKey: repo.key,
+            repoName: repo.full_name,
+            number: run.run_number,
+            user: run.actor ?? undefined,
+            workflowName: run.name ?? undefined,
+            branch: run.head_branch ?? undefined,
+            runStatus,
+            failing: isLatest && FAILED_RUN_CONCLUSIONS.has(run.conclusion ?? ''),
+            onMyPr,
+            score: runScore,
+            lastVisitedAt: run.last_visited_at,
+            updatedAt: new Date(run.updated_at).getTime(),
+            accounts: repo.accounts,
+            isMine: onMyPr || (!!run.actor && myLogins.has(run.actor.login.toLowerCase())),
+            recentlyContributedByMe: false,
+          });
+        }
+      }
+    }
+
+    // Add gists (matched by description or any filename)
+    for (const gist of allGists.value) {
+      const files = Object.keys(gist.files);
+      const gistScore = Math.max(
+        gist.description ? calculateMatchScore(gist.description, normalizedQuery, []) : 0,
+        ...files.map((filename) => calculateMatchScore(filename, normalizedQuery, [])),
+      );
+
+      if (!normalizedQuery || gistScore > 0) {
+        results.push({
+          type: 'gist',
+          id: `gist-${gist.key}`,
+          entityKey: gist.key,
+          title: gist.description || files[0] || gist.id,
+          url: gist.html_url,
+          user: gist.owner ?? undefined,
+          files,
+          score: gistScore,
+          lastVisitedAt: gist.last_visited_at,
+          updatedAt: new Date(gist.updated_at).getTime(),
+          accounts: gist.account ? [gist.account] : undefined,
+          isMine: true, // Only the signed-in accounts' own gists are imported
+          recentlyContributedByMe: false,
+        });
+      }
+    }
+
+    // Add projects (matched by title)
+    for (const project of allProjects.value) {
+      const projectScore = calculateMatchScore(project.title, normalizedQuery, []);
+
+      if (!normalizedQuery || projectScore > 0) {
+        results.push({
+          type: 'project',
+          id: `project-${project.key}`,
+          entityKey: project.key,
+          title: project.title,
+          url: project.html_url,
+          number: project.number,
+          state: project.closed ? 'closed' : 'open',
+          projectKey: project.key,
+          projectOwner: project.owner.login,
+          itemCount: project.items.length,
+          score: projectScore,
+          updatedAt: new Date(project.updated_at).getTime(),
+          closedAt: project.closed_at ? new Date(project.closed_at).getTime() : undefined,
+          accounts: project.account ? [project.account] : undefined,
+          isMine: false,
+          recentlyContributedByMe: false,
+        });
+      }
     }
 
     return results;
@@ -498,13 +930,14 @@ export function useUnifiedSearch(currentUsername?: Ref<string | undefined> | str
 
   /**
    * Get filtered and sorted search results
+   * Full-text matches (see searchFullText) are looked up by the caller, since that's async
    */
   const searchResults = computed(() => {
-    return (query: string = '') => {
+    return (query: string = '', fullTextMatches?: Map<string, string>) => {
       const hasQuery = !!query.trim();
-      const results = buildSearchResults(query);
+      const results = buildSearchResults(query, fullTextMatches);
 
-      // Filter out old closed PRs/Issues when actively searching
+      // Filter out old closed PRs/Issues/Discussions when actively searching
       let filteredResults = results;
       if (hasQuery) {
         const now = Date.now();
@@ -518,8 +951,16 @@ export function useUnifiedSearch(currentUsername?: Ref<string | undefined> | str
         const twelveHoursAgo = now - 12 * 60 * 60 * 1000;
 
         filteredResults = results.filter((item) => {
-          // Keep repos (not PRs/Issues)
-          if (item.type !== 'pr' && item.type !== 'issue') return true;
+          // Keep repos, releases, workflow runs and gists (they have no open/closed state)
+          if (
+            item.type === 'repo' ||
+            item.type === 'release' ||
+            item.type === 'workflow_run' ||
+            item.type === 'gist' ||
+            item.type === 'skeleton'
+          ) {
+            return true;
+          }
 
           // Keep if open
           if (item.state === 'open') return true;
@@ -548,10 +989,16 @@ export function useUnifiedSearch(currentUsername?: Ref<string | undefined> | str
   });
 
   /**
-   * Set the searchable entities (repos with their PRs/issues)
+   * Set the searchable entities (repos with their PRs/issues), gists and projects
    */
-  async function setEntities(entities: SearchableEntity[]) {
+  async function setEntities(
+    entities: SearchableEntity[],
+    gists: GistRecord[] = [],
+    projects: ProjectRecord[] = [],
+  ) {
     allEntities.value = entities;
+    allGists.value = gists;
+    allProjects.value = projects;
 
     // Analyze repos to find common prefixes and dominant organizations
     const repos = entities.map((e) => e.repo);
@@ -4,14 +4,39 @@
  */
 
 import {
-  getAllAccessibleRepos,
-  getRepoIssues,
-  getRepoPullRequests,
-  getUserInvolvedPullRequests,
   getAuthenticatedUser,
   getRecentlyPushedRepos,
   getRecentlyUpdatedPRs,
+  markNotificationThreadRead,
+  isAbortError,
+  isNotFoundError,
+  DEFAULT_WEB_HOST,
+  type GitHubRequestContext,
 } from '@/src/api/github';
+import {
+  fetchAllRepos,
+  fetchStarredRepos,
+  fetchRepo,
+  fetchContributions,
+  fetchRepoIssues,
+  fetchRepoIssueChanges,
+  fetchRepoIssueComments,
+  fetchRepoPullRequests,
+  fetchUserInvolvedPullRequests,
+  fetchPullRequestChecksState,
+  fetchRepoDiscussions,
+  fetchRepoReleases,
+  fetchRepoTags,
+  fetchRepoMilestones,
+  fetchRepoWorkflowRuns,
+  fetchUserGists,
+  fetchNotifications,
+  fetchUserOrganizations,
+  fetchOrgProjects,
+  fetchRepoBranches,
+  fetchBranchHeadSha,
+  fetchRepoTree,
+} from '@/src/import/sources';
 
 import {
   saveRepos,
@@ -19,19 +44,84 @@ import {
   savePullRequests,
   getMeta,
   setMeta,
+  deleteMeta,
   getRepo,
   getRepoByName,
   getIssuesByRepo,
   getPullRequestsByRepo,
+  getDiscussionsByRepo,
+  saveDiscussions,
+  getReleasesByRepo,
+  saveReleases,
+  deleteReleases,
+  getMilestonesByRepo,
+  saveMilestones,
+  deleteMilestones,
+  getWorkflowRunsByRepo,
+  saveWorkflowRuns,
+  deleteWorkflowRuns,
+  getAllGists,
+  saveGists,
+  deleteGists,
+  getAllNotifications,
+  getNotification,
+  saveNotifications,
+  deleteNotifications,
+  getAllProjects,
+  saveProjects,
+  deleteProjects,
+  getBranchesByRepo,
+  saveBranches,
+  deleteBranches,
+  getSearchDocumentsByRepo,
+  saveSearchDocuments,
+  deleteSearchDocuments,
+  getFileTree,
+  getFileTreesByRepo,
+  saveFileTree,
+  deleteFileTrees,
+  getAllRepos,
+  deleteRepos,
+  deleteIssues,
+  pruneHttpCache,
+  saveSyncRun,
 } from '@/src/storage/db';
 
 import {
   getImportPreferences,
   getOrgFilterPreferences,
   saveOrgFilterPreferences,
+  getGitHubToken,
+  getEnterpriseHosts,
+  getGitHubAccounts,
+  type ImportPreferences,
 } from '@/src/storage/chrome';
-import { isUserContributor, getLastContributionDate } from '@/src/api/github';
-import type { IssueRecord, PullRequestRecord } from '@/src/types';
+import type {
+  BranchRecord,
+  DiscussionRecord,
+  FileTreeRecord,
+  GistRecord,
+  MilestoneRecord,
+  GitHubProject,
+  ProjectRecord,
+  GitHubRelease,
+  GitHubRepo,
+  GitHubWorkflowRun,
+  GitHubNotification,
+  IssueRecord,
+  NotificationRecord,
+  PullRequestRecord,
+  ReleaseRecord,
+  RepoRecord,
+  SearchDocumentRecord,
+  SyncRunRecord,
+  SyncRunStats,
+  SyncRunTrigger,
+  WorkflowRunRecord,
+} from '@/src/types';
+import { buildSearchDocument } from '@/src/utils/fullText';
+import { mapWithConcurrency } from '@/src/utils/pool';
+import { recordKey } from '@/src/utils/recordKey';
 
 // Repos with last update older than 6 months are NOT indexed by default
 // (unless manually indexed or me_contributing is true)
@@ -48,19 +138,77 @@ export interface ImportStatus {
   lastStartedAt: number | null;
   lastCompletedAt: number | null;
   lastError: string | null;
-  accountLogin: string | null; // GitHub username (e.g. "amberpixels")
+  accountLogin: string | null; // GitHub username of the primary account (e.g. "amberpixels")
+  accountLogins?: string[]; // Every account imported by the last run (primary first)
+  removed?: RemovalSummary; // What the last full import removed or re-keyed
+  resumedAt?: number | null; // When the run picked up where an interrupted one stopped
   progress: {
     totalRepos: number; // Total repos
     indexedRepos: number; // Number of indexed repos (actively imported)
     nonIndexedRepos: number; // Number of non-indexed repos (skipped)
     issuesProgress: number; // How many indexed repos have issues imported
     prsProgress: number; // How many indexed repos have PRs imported
-    currentRepo: string | null;
+    reposInFlight: string[]; // Repos being synced right now (several run at once)
   };
 }
 
+/**
+ * Entities an import found gone (deleted, transferred, access lost) or renamed
+ */
+export interface RemovalSummary {
+  repos: number;
+  issues: number;
+  pullRequests: number;
+  discussions: number;
+  releases: number;
+  milestones: number;
+  workflowRuns: number;
+  gists: number;
+  projects: number;
+  renamedRepos: string[]; // "old/name → new/name"
+}
+
+/**
+ * When the scheduled syncs run next (null when not scheduled)
+ */
+export interface SyncSchedule {
+  nextImportAt: number | null;
+  nextQuickCheckAt: number | null;
+  quickCheckMode: 'idle' | 'browsing';
+}
+
 const IMPORT_STATUS_KEY = 'import_status';
 const MIN_IMPORT_INTERVAL_MS = 3 * 60 * 1000; // Don't import more often than every 3 minutes
+const IMPORT_CHECKPOINT_KEY = 'import_checkpoint';
+const IMPORT_CHECKPOINT_MAX_AGE_MS = 6 * 60 * 60 * 1000; // Older progress isn't worth resuming
+const IMPORT_CANCELLED_MESSAGE = 'Sync cancelled';
+const FULL_IMPORT_ALARM = 'full-import';
+const FULL_IMPORT_PERIOD_MINUTES = 15;
+const QUICK_CHECK_ALARM = 'quick-check';
+const QUICK_CHECK_PERIOD_MINUTES = 0.5; // Idle cadence; also the shortest period alarms allow
+const SYNC_RUNS_LIMIT = 100; // Runs kept in the sync history, per kind
+const HTTP_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Drop cached responses not refreshed in a week
+const MISSING_REPO_RUNS_KEY = 'missing_repo_runs'; // Repo key → full imports in a row it was missing from
+const MISSING_REPO_RUNS_BEFORE_REMOVAL = 3; // Unless GitHub confirms it's gone with a 404
+const ISSUE_SYNC_CURSOR_PREFIX = 'issue_sync_cursor:'; // + repo key
+const ISSUE_FULL_SYNC_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000; // Re-download all issues weekly as a backstop
+const ISSUE_SYNC_CURSOR_MARGIN_MS = 2 * 60 * 1000; // Re-ask for changes this far back, for lagging writes
+const RELEASES_LIMIT = 30; // Most recent releases (and tags) kept per repo
+const MILESTONES_LIMIT = 100; // Open and closed milestones kept per repo (next due first)
+const WORKFLOW_RUNS_LIMIT = 30; // Most recent workflow runs kept per repo
+const WORKFLOW_RUNS_PER_BRANCH_LIMIT = 10; // Extra runs per branch of my open PRs
+const BRANCHES_FETCHED_AT_PREFIX = 'branches_fetched_at:'; // + repo key
+const BRANCHES_MAX_AGE_MS = 10 * 60 * 1000; // Refetch a repo's branches after 10 minutes
+const BRANCHES_LIMIT = 300; // Busy repos can have thousands of branches
+const FULL_TEXT_COMMENTS_LIMIT = 100; // Most recently updated comments indexed per repo
+
+/**
+ * Per-repo issue sync cursor stored in IndexedDB meta
+ */
+interface IssueSyncCursor {
+  since: string; // ISO 8601 server time to ask for changes since: newest updated_at seen, minus a margin
+  lastFullSyncAt: number; // Timestamp of the last full (non-incremental) sync
+}
 
 /**
  * Get current import status
@@ -80,20 +228,28 @@ export async function getImportStatus(): Promise<ImportStatus> {
         nonIndexedRepos: 0,
         issuesProgress: 0,
         prsProgress: 0,
-        currentRepo: null,
+        reposInFlight: [],
       },
     }
   );
 }
 
+// Updates read the status and write it back: chained, so the repos syncing at once don't
+// overwrite each other's progress with a stale copy
+let importStatusWrite: Promise<void> = Promise.resolve();
+
 /**
  * Update import status
  * Exported for use in background initialization to clear stuck states
  */
-export async function updateImportStatus(updates: Partial<ImportStatus>): Promise<void> {
-  const current = await getImportStatus();
-  const newStatus = { ...current, ...updates };
-  await setMeta(IMPORT_STATUS_KEY, newStatus);
+export function updateImportStatus(updates: Partial<ImportStatus>): Promise<void> {
+  const write = importStatusWrite.then(async () => {
+    const current = await getImportStatus();
+    const newStatus = { ...current, ...updates };
+    await setMeta(IMPORT_STATUS_KEY, newStatus);
+  });
+  importStatusWrite = write.catch(() => {}); // A failed write doesn't block the next ones
+  return write;
 }
 
 /**
@@ -128,8 +284,8 @@ export async function shouldRunImport(): Promise<boolean> {
     });
   }
 
-  // Check if enough time has passed since last import
-  if (status.lastCompletedAt) {
+  // Check if enough time has passed since last import (an interrupted one resumes regardless)
+  if (status.lastCompletedAt && !(await getImportCheckpoint())) {
     const timeSinceLastSync = Date.now() - status.lastCompletedAt;
     if (timeSinceLastSync < MIN_IMPORT_INTERVAL_MS) {
       console.warn(
@@ -151,6 +307,9 @@ export async function shouldRunImport(): Promise<boolean> {
  * 3. You're a contributor (me_contributing = true) - even if old/inactive
  * 4. Has recent activity (pushed within last 6 months)
  *
+ * Repos imported only because they are starred are never auto-indexed: they stay searchable by
+ * name, and their issues/PRs are synced once the user adds them to the index.
+ *
  * Note: We'll apply a limit of MAX_INDEXED_REPOS to avoid excessive importing
  */
 function isRepoOfInterest(repo: {
@@ -159,12 +318,18 @@ function isRepoOfInterest(repo: {
   indexed_manually?: boolean;
   is_owned_by_me?: boolean;
   is_parent_of_my_fork?: boolean;
+  is_starred?: boolean;
 }): boolean {
   // Manual override always wins
   if (repo.indexed_manually) {
     return true;
   }
 
+  // Starred repos are opt-in per repo
+  if (repo.is_starred) {
+    return false;
+  }
+
   // You own the repo = always of interest (personal repos)
   if (repo.is_owned_by_me) {
     return true;
@@ -199,12 +364,832 @@ function isRepoOfInterest(repo: {
  */
 export type ImportProgressCallback = (event: 'repos_saved' | 'repo_processed') => void;
 
+/**
+ * State shared by the per-account imports of a single run
+ */
+interface ImportRun {
+  preferences: ImportPreferences;
+  totals: ImportStatus['progress']; // Progress of the accounts imported so far
+  accountLogins: string[]; // Accounts imported so far
+  importedRepoKeys: Set<string>; // Repos already saved by an earlier account of this run
+  indexedRepoKeys: Set<string>; // Repos already indexed (issues/PRs fetched) by an earlier account
+  incompleteHosts: Set<string>; // Hosts where some repo listing didn't answer, so missing repos are unknown
+  removed: RemovalSummary;
+  onProgress?: ImportProgressCallback;
+  startedAt: number;
+  completedAccounts: string[]; // Context labels of the accounts fully imported so far
+  resumeAccount: AccountCheckpoint | null; // Account an interrupted run stopped in
+  stats: SyncRunStats;
+}
+
+/**
+ * Where an account's import stands, once its repos are saved
+ */
+interface AccountCheckpoint {
+  label: string; // Context label of the account
+  accountLogin: string | null;
+  phase: 'repos' | 'gists' | 'projects';
+  repoQueue: string[]; // Indexed repos whose issues/PRs are still to be synced, in order
+  reposDone: number; // Indexed repos synced already
+  totalRepos: number;
+  nonIndexedRepos: number;
+}
+
+/**
+ * Progress of a full import stored in IndexedDB meta after every step,
+ * so a run killed along with the service worker can resume instead of starting over
+ */
+interface ImportCheckpoint {
+  startedAt: number;
+  savedAt: number;
+  completedAccounts: string[];
+  account: AccountCheckpoint | null; // Null between accounts
+  totals: ImportStatus['progress'];
+  accountLogins: string[];
+  importedRepoKeys: string[];
+  indexedRepoKeys: string[];
+  incompleteHosts: string[];
+  removed: RemovalSummary;
+  stats: Omit<SyncRunStats, 'repos'> & { repos: string[] }; // The run's statistics so far
+}
+
+/**
+ * Get the checkpoint of an interrupted import, unless it is too old to resume
+ */
+async function getImportCheckpoint(): Promise<ImportCheckpoint | null> {
+  const checkpoint = (await getMeta(IMPORT_CHECKPOINT_KEY)) as ImportCheckpoint | null;
+  if (checkpoint && Date.now() - checkpoint.savedAt > IMPORT_CHECKPOINT_MAX_AGE_MS) {
+    console.warn('[Import] Discarding stale import checkpoint');
+    return null;
+  }
+  return checkpoint ?? null;
+}
+
+/**
+ * Save the run's progress, with where the current account stands
+ */
+async function saveImportCheckpoint(
+  run: ImportRun,
+  account: AccountCheckpoint | null,
+): Promise<void> {
+  const checkpoint: ImportCheckpoint = {
+    startedAt: run.startedAt,
+    savedAt: Date.now(),
+    completedAccounts: run.completedAccounts,
+    account,
+    totals: run.totals,
+    accountLogins: run.accountLogins,
+    importedRepoKeys: [...run.importedRepoKeys],
+    indexedRepoKeys: [...run.indexedRepoKeys],
+    incompleteHosts: [...run.incompleteHosts],
+    removed: run.removed,
+    stats: { ...run.stats, repos: [...run.stats.repos] },
+  };
+  await setMeta(IMPORT_CHECKPOINT_KEY, checkpoint);
+}
+
+/**
+ * Accounts to import from: the primary github.com account (when signed in),
+ * additional github.com accounts, and every signed-in enterprise host
+ */
+async function getImportContexts(): Promise<GitHubRequestContext[]> {
+  const contexts: GitHubRequestContext[] = [];
+
+  if (await getGitHubToken()) {
+    contexts.push({});
+  }
+
+  for (const account of await getGitHubAccounts()) {
+    contexts.push({ account: account.login });
+  }
+
+  for (const host of await getEnterpriseHosts()) {
+    if (host.token) {
+      contexts.push({ host: host.webHost });
+    }
+  }
+
+  return contexts;
+}
+
+/**
+ * Describe a request context for logs
+ */
+function contextLabel(ctx: GitHubRequestContext): string {
+  const host = ctx.host ?? DEFAULT_WEB_HOST;
+  return ctx.account ? `${ctx.account}@${host}` : host;
+}
+
+/**
+ * Add an account login to a repo's account list (case-insensitive, no duplicates)
+ */
+function withAccount(accounts: string[] | undefined, login: string | null): string[] {
+  const list = accounts ?? [];
+  if (!login || list.some((a) => a.toLowerCase() === login.toLowerCase())) {
+    return list;
+  }
+  return [...list, login];
+}
+
+/**
+ * Fresh counters for a sync run
+ */
+function createSyncRunStats(): SyncRunStats {
+  return {
+    apiCalls: 0,
+    cachedResponses: 0,
+    rateLimitUsed: 0,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    repos: new Set(),
+    repoErrors: [],
+  };
+}
+
+/**
+ * Count saved and removed records in the run's statistics
+ * @param existingKeys Keys of the records stored before they were saved
+ */
+function recordChanges<K>(
+  ctx: GitHubRequestContext,
+  existingKeys: { has(key: K): boolean },
+  savedKeys: K[],
+  removed = 0,
+): void {
+  if (!ctx.stats) return;
+
+  const updated = savedKeys.filter((key) => existingKeys.has(key)).length;
+  ctx.stats.added += savedKeys.length - updated;
+  ctx.stats.updated += updated;
+  ctx.stats.removed += removed;
+}
+
+/**
+ * Note a repo's failed sync step in the run's statistics (cancellation isn't a failure)
+ */
+function recordRepoError(
+  ctx: GitHubRequestContext,
+  repoFullName: string,
+  step: string,
+  error: unknown,
+): void {
+  if (!ctx.stats || isAbortError(error)) return;
+
+  const message = error instanceof Error ? error.message : String(error);
+  ctx.stats.repoErrors.push({ repo: repoFullName, error: `${step}: ${message}` });
+}
+
+/**
+ * Save a finished sync run to the sync history
+ * History is informational: failing to save it doesn't fail the sync
+ * @param error What ended the run early (an abort error means it was cancelled)
+ */
+async function recordSyncRun(
+  kind: SyncRunRecord['kind'],
+  trigger: SyncRunTrigger,
+  startedAt: number,
+  stats: SyncRunStats,
+  { error, resumed = false }: { error?: unknown; resumed?: boolean } = {},
+): Promise<void> {
+  const failed = error !== undefined && !isAbortError(error);
+  const record: SyncRunRecord = {
+    id: `${kind}-${startedAt}`,
+    kind,
+    trigger,
+    started_at: startedAt,
+    ended_at: Date.now(),
+    outcome: error === undefined ? 'completed' : failed ? 'failed' : 'cancelled',
+    error: failed ? (error instanceof Error ? error.message : String(error)) : null,
+    resumed,
+    repos: [...stats.repos],
+    added: stats.added,
+    updated: stats.updated,
+    removed: stats.removed,
+    api_calls: stats.apiCalls,
+    cached_responses: stats.cachedResponses,
+    rate_limit_used: stats.rateLimitUsed,
+    repo_errors: stats.repoErrors,
+  };
+
+  try {
+    await saveSyncRun(record, SYNC_RUNS_LIMIT);
+  } catch (err) {
+    console.error('[Import] ✗ Failed to record sync run:', err);
+  }
+}
+
+/**
+ * Request context for fetching a stored repo's issues/PRs:
+ * its enterprise host, or a github.com account that can see it (primary preferred)
+ */
+export async function getRepoRequestContext(repo: RepoRecord): Promise<GitHubRequestContext> {
+  if (repo.host) {
+    return { host: repo.host };
+  }
+
+  const { accountLogin } = await getImportStatus();
+  const accounts = repo.accounts ?? [];
+  if (
+    accounts.length === 0 ||
+    accounts.some((a) => a.toLowerCase() === accountLogin?.toLowerCase())
+  ) {
+    return {};
+  }
+
+  // Only additional accounts can see this repo: use one that is still signed in
+  const signedIn = await getGitHubAccounts();
+  const account = accounts.find((a) =>
+    signedIn.some((s) => s.login.toLowerCase() === a.toLowerCase()),
+  );
+  return account ? { account } : {};
+}
+
+/**
+ * Sync a repo's issues: only those updated since the last sync, or all of them when there is no
+ * cursor yet, a full reconciliation is due, or mode is 'full'. Changes are merged into the
+ * existing records, and the cursor only advances once they are saved.
+ * A full sync also deletes stored issues GitHub no longer returns (deleted or transferred).
+ * Mode 'changes' (quick-check) never syncs fully: without a cursor it leaves the repo to the
+ * next full import.
+ * @returns Number of issues fetched and removed
+ */
+async function syncRepoIssues(
+  repo: RepoRecord,
+  accountLogin: string | null,
+  ctx: GitHubRequestContext,
+  mode: 'auto' | 'full' | 'changes' = 'auto',
+): Promise<{ fetched: number; removed: number }> {
+  const [owner, repoName] = repo.full_name.split('/');
+  const cursorKey = `${ISSUE_SYNC_CURSOR_PREFIX}${repo.key}`;
+  const cursor = (await getMeta(cursorKey)) as IssueSyncCursor | null;
+  const startedAt = Date.now();
+  if (mode === 'changes' && !cursor) {
+    return { fetched: 0, removed: 0 };
+  }
+  const isFull =
+    mode === 'full' ||
+    !cursor ||
+    (mode === 'auto' && startedAt - cursor.lastFullSyncAt > ISSUE_FULL_SYNC_INTERVAL_MS);
+
+  const since = isFull ? undefined : cursor.since;
+  const fetchedIssues =
+    mode === 'changes' && since
+      ? await fetchRepoIssueChanges(owner, repoName, since, ctx)
+      : await fetchRepoIssues(owner, repoName, since, ctx);
+
+  // Get existing issues to preserve visit tracking (nothing to merge when no issue changed)
+  const existingIssues = isFull || fetchedIssues.length > 0 ? await getIssuesByRepo(repo.key) : [];
+  const existingIssuesMap = new Map(existingIssues.map((i) => [i.id, i]));
+  // The cursor margin returns issues already stored as they are: not changes
+  const issues = isFull
+    ? fetchedIssues
+    : fetchedIssues.filter(
+        (issue) => existingIssuesMap.get(issue.id)?.updated_at !== issue.updated_at,
+      );
+
+  const issueRecords: IssueRecord[] = issues.map((issue) => {
+    const existing = existingIssuesMap.get(issue.id);
+    return {
+      ...issue,
+      key: recordKey(repo.host, issue.id),
+      repo_key: repo.key,
+      account: accountLogin ?? undefined,
+      last_fetched_at: Date.now(),
+      visit_count: existing?.visit_count,
+      last_visited_at: existing?.last_visited_at,
+      first_visited_at: existing?.first_visited_at,
+    };
+  });
+
+  await saveIssues(issueRecords);
+
+  let removedIssueKeys: string[] = [];
+  if (isFull) {
+    const fetchedIds = new Set(issues.map((issue) => issue.id));
+    removedIssueKeys = existingIssues.filter((i) => !fetchedIds.has(i.id)).map((i) => i.key);
+    await deleteIssues(removedIssueKeys);
+  }
+  recordChanges(
+    ctx,
+    existingIssuesMap,
+    issues.map((issue) => issue.id),
+    removedIssueKeys.length,
+  );
+
+  // Timestamps come from GitHub, so a skewed local clock can't make the cursor skip changes
+  const newestUpdatedAt = fetchedIssues.reduce(
+    (newest, issue) => Math.max(newest, Date.parse(issue.updated_at)),
+    0,
+  );
+  await setMeta(cursorKey, {
+    since:
+      newestUpdatedAt > 0
+        ? new Date(newestUpdatedAt - ISSUE_SYNC_CURSOR_MARGIN_MS).toISOString()
+        : (cursor?.since ?? new Date(0).toISOString()),
+    lastFullSyncAt: isFull ? startedAt : cursor.lastFullSyncAt,
+  } satisfies IssueSyncCursor);
+
+  // Quick-check runs this every few seconds: only log when something changed
+  if (mode !== 'changes' || issues.length > 0) {
+    console.warn(
+      `[Import] ✓ ${repo.full_name}: ${issues.length} ${isFull ? 'issues' : 'changed issues'}` +
+        (removedIssueKeys.length > 0 ? `, ${removedIssueKeys.length} removed` : ''),
+    );
+  }
+  return { fetched: issues.length, removed: removedIssueKeys.length };
+}
+
+/**
+ * Fetch a repo's most recently updated discussions and merge them into the existing records
+ * @returns Number of discussions fetched
+ */
+async function syncRepoDiscussions(
+  repo: RepoRecord,
+  accountLogin: string | null,
+  ctx: GitHubRequestContext,
+): Promise<number> {
+  const [owner, repoName] = repo.full_name.split('/');
+  const discussions = await fetchRepoDiscussions(owner, repoName, ctx);
+
+  // Get existing discussions to preserve visit tracking
+  const existingDiscussions = await getDiscussionsByRepo(repo.key);
+  const existingDiscussionsMap = new Map(existingDiscussions.map((d) => [d.id, d]));
+
+  const discussionRecords: DiscussionRecord[] = discussions.map((discussion) => {
+    const existing = existingDiscussionsMap.get(discussion.id);
+    return {
+      ...discussion,
+      key: recordKey(repo.host, discussion.id),
+      repo_key: repo.key,
+      account: accountLogin ?? undefined,
+      last_fetched_at: Date.now(),
+      visit_count: existing?.visit_count,
+      last_visited_at: existing?.last_visited_at,
+      first_visited_at: existing?.first_visited_at,
+    };
+  });
+
+  await saveDiscussions(discussionRecords);
+  recordChanges(
+    ctx,
+    existingDiscussionsMap,
+    discussions.map((discussion) => discussion.id),
+  );
+  console.warn(`[Import] ✓ ${repo.full_name}: ${discussions.length} discussions`);
+  return discussions.length;
+}
+
+/**
+ * Replace a repo's stored releases (and optionally bare tags) with the most recent ones
+ * Older entries fall out of the index; visit tracking is kept for the ones that remain
+ * @returns Number of releases and tags stored
+ */
+async function syncRepoReleases(
+  repo: RepoRecord,
+  accountLogin: string | null,
+  includeTags: boolean,
+  ctx: GitHubRequestContext,
+): Promise<number> {
+  const [owner, repoName] = repo.full_name.split('/');
+  const [releases, tags] = await Promise.all([
+    fetchRepoReleases(owner, repoName, RELEASES_LIMIT, ctx),
+    includeTags ? fetchRepoTags(owner, repoName, RELEASES_LIMIT, ctx) : Promise.resolve([]),
+  ]);
+
+  // Get existing releases to preserve visit tracking
+  const existingReleases = await getReleasesByRepo(repo.key);
+  const existingReleasesMap = new Map(existingReleases.map((r) => [r.key, r]));
+
+  const toRecord = (release: GitHubRelease, isTagOnly: boolean): ReleaseRecord => {
+    const key = `${repo.key}/${release.tag_name}`;
+    const existing = existingReleasesMap.get(key);
+    return {
+      ...release,
+      key,
+      repo_key: repo.key,
+      account: accountLogin ?? undefined,
+      is_tag_only: isTagOnly || undefined,
+      last_fetched_at: Date.now(),
+      visit_count: existing?.visit_count,
+      last_visited_at: existing?.last_visited_at,
+      first_visited_at: existing?.first_visited_at,
+    };
+  };
+
+  // Drafts have no public page, so they are not worth jumping to
+  const publishedReleases = releases.filter((release) => !release.draft);
+  const releaseTags = new Set(publishedReleases.map((release) => release.tag_name));
+  const records = [
+    ...publishedReleases.map((release) => toRecord(release, false)),
+    ...tags
+      .filter((tag) => !releaseTags.has(tag.name))
+      .map((tag) =>
+        toRecord(
+          {
+            id: 0,
+            tag_name: tag.name,
+            name: null,
+            html_url: `${repo.html_url}/releases/tag/${encodeURIComponent(tag.name)}`,
+            draft: false,
+            prerelease: false,
+            author: null,
+            created_at: '',
+            published_at: null,
+          },
+          true,
+        ),
+      ),
+  ];
+
+  const keptKeys = new Set(records.map((record) => record.key));
+  const staleKeys = existingReleases.filter((r) => !keptKeys.has(r.key)).map((r) => r.key);
+  await saveReleases(records);
+  await deleteReleases(staleKeys);
+  recordChanges(
+    ctx,
+    existingReleasesMap,
+    records.map((record) => record.key),
+    staleKeys.length,
+  );
+  console.warn(`[Import] ✓ ${repo.full_name}: ${records.length} releases/tags`);
+  return records.length;
+}
+
+/**
+ * Replace a repo's stored milestones with the current ones
+ * @returns Number of milestones stored
+ */
+async function syncRepoMilestones(
+  repo: RepoRecord,
+  accountLogin: string | null,
+  ctx: GitHubRequestContext,
+): Promise<number> {
+  const [owner, repoName] = repo.full_name.split('/');
+  const milestones = await fetchRepoMilestones(owner, repoName, MILESTONES_LIMIT, ctx);
+
+  const records: MilestoneRecord[] = milestones.map((milestone) => ({
+    ...milestone,
+    key: recordKey(repo.host, milestone.id),
+    repo_key: repo.key,
+    account: accountLogin ?? undefined,
+    last_fetched_at: Date.now(),
+  }));
+
+  const existingKeys = new Set((await getMilestonesByRepo(repo.key)).map((m) => m.key));
+  const fetchedKeys = new Set(records.map((record) => record.key));
+  const staleKeys = [...existingKeys].filter((key) => !fetchedKeys.has(key));
+  await saveMilestones(records);
+  await deleteMilestones(staleKeys);
+  recordChanges(ctx, existingKeys, [...fetchedKeys], staleKeys.length);
+  console.warn(`[Import] ✓ ${repo.full_name}: ${records.length} milestones`);
+  return records.length;
+}
+
+/**
+ * Replace a repo's stored workflow runs with the most recent ones, plus the latest runs on the
+ * branches of my open PRs (those may be buried under other runs in busy repos)
+ * @returns Number of workflow runs stored
+ */
+async function syncRepoWorkflowRuns(
+  repo: RepoRecord,
+  accountLogin: string | null,
+  ctx: GitHubRequestContext,
+): Promise<number> {
+  const [owner, repoName] = repo.full_name.split('/');
+  const recentRuns = await fetchRepoWorkflowRuns(
+    owner,
+    repoName,
+    WORKFLOW_RUNS_LIMIT,
+    undefined,
+    ctx,
+  );
+
+  const login = accountLogin?.toLowerCase();
+  const myPRBranches = new Set(
+    (await getPullRequestsByRepo(repo.key))
+      .filter((pr) => pr.state === 'open' && pr.user.login.toLowerCase() === login)
+      .map((pr) => pr.head.ref),
+  );
+  const coveredBranches = new Set(recentRuns.map((run) => run.head_branch));
+  const branchRuns = await Promise.all(
+    [...myPRBranches]
+      .filter((branch) => !coveredBranches.has(branch))
+      .map((branch) =>
+        fetchRepoWorkflowRuns(owner, repoName, WORKFLOW_RUNS_PER_BRANCH_LIMIT, branch, ctx),
+      ),
+  );
+
+  // Get existing runs to preserve visit tracking
+  const existingRuns = await getWorkflowRunsByRepo(repo.key);
+  const existingRunsMap = new Map(existingRuns.map((run) => [run.id, run]));
+
+  const runsById = new Map<number, GitHubWorkflowRun>();
+  for (const run of [...recentRuns, ...branchRuns.flat()]) {
+    runsById.set(run.id, run);
+  }
+  const runRecords: WorkflowRunRecord[] = [...runsById.values()].map((run) => {
+    const existing = existingRunsMap.get(run.id);
+    return {
+      ...run,
+      key: recordKey(repo.host, run.id),
+      repo_key: repo.key,
+      account: accountLogin ?? undefined,
+      last_fetched_at: Date.now(),
+      visit_count: existing?.visit_count,
+      last_visited_at: existing?.last_visited_at,
+      first_visited_at: existing?.first_visited_at,
+    };
+  });
+
+  const staleRunKeys = existingRuns.filter((run) => !runsById.has(run.id)).map((run) => run.key);
+  await saveWorkflowRuns(runRecords);
+  await deleteWorkflowRuns(staleRunKeys);
+  recordChanges(
+    ctx,
+    existingRunsMap,
+    runRecords.map((run) => run.id),
+    staleRunKeys.length,
+  );
+  console.warn(`[Import] ✓ ${repo.full_name}: ${runRecords.length} workflow runs`);
+  return runRecords.length;
+}
+
+/**
+ * Rebuild the full-text documents of a repo's stored issues and PRs from their bodies and,
+ * optionally, the repo's most recently updated comments. Only changed documents are written;
+ * documents of issues/PRs no longer stored are dropped.
+ * @returns Number of documents written
+ */
+async function syncRepoFullText(
+  repo: RepoRecord,
+  withComments: boolean,
+  ctx: GitHubRequestContext,
+): Promise<number> {
+  const [owner, repoName] = repo.full_name.split('/');
+  const [issues, prs, existingDocuments] = await Promise.all([
+    getIssuesByRepo(repo.key),
+    getPullRequestsByRepo(repo.key),
+    getSearchDocumentsByRepo(repo.key),
+  ]);
+
+  // Comments by issue/PR number (the API URL of their issue ends with it)
+  const commentsByNumber = new Map<number, string[]>();
+  if (withComments) {
+    const comments = await fetchRepoIssueComments(owner, repoName, FULL_TEXT_COMMENTS_LIMIT, ctx);
+    for (const comment of comments) {
+      const number = parseInt(comment.issue_url.slice(comment.issue_url.lastIndexOf('/') + 1), 10);
+      if (!comment.body || isNaN(number)) continue;
+
+      commentsByNumber.set(number, [...(commentsByNumber.get(number) ?? []), comment.body]);
+    }
+  }
+
+  const entries = [
+    ...issues.map((issue) => ({
+      id: `issue-${issue.key}`,
+      number: issue.number,
+      body: issue.body,
+    })),
+    ...prs.map((pr) => ({ id: `pr-${pr.key}`, number: pr.number, body: pr.body })),
+  ];
+  const existingById = new Map(existingDocuments.map((document) => [document.id, document]));
+
+  const changedDocuments: SearchDocumentRecord[] = [];
+  for (const { id, number, body } of entries) {
+    const document = buildSearchDocument(id, repo.key, body, commentsByNumber.get(number));
+    const existing = existingById.get(id);
+    if (existing?.text === document.text) continue;
+
+    // Comments that dropped out of the recent listing aren't refetched: while the body is the
+    // same, keep the comments indexed before
+    const keepsOlderComments =
+      withComments && !commentsByNumber.has(number) && existing?.text.startsWith(document.text);
+    if (!keepsOlderComments) {
+      changedDocuments.push(document);
+    }
+  }
+
+  const documentIds = new Set(entries.map((entry) => entry.id));
+  const missingIds = existingDocuments
+    .map((document) => document.id)
+    .filter((id) => !documentIds.has(id));
+
+  await saveSearchDocuments(changedDocuments);
+  await deleteSearchDocuments(missingIds);
+  console.warn(
+    `[Import] ✓ ${repo.full_name}: ${changedDocuments.length} full-text documents updated`,
+  );
+  return changedDocuments.length;
+}
+
+/**
+ * Replace an account's stored gists with the full list from GitHub (deleted gists are removed)
+ * @returns Number of gists stored
+ */
+async function syncAccountGists(
+  accountLogin: string | null,
+  ctx: GitHubRequestContext,
+  run: ImportRun,
+): Promise<number> {
+  const gists = await fetchUserGists(ctx);
+
+  // Only this account's gists on this host are replaced; visit tracking is preserved
+  const existingGists = (await getAllGists()).filter(
+    (gist) => gist.account === (accountLogin ?? undefined) && gist.host === ctx.host,
+  );
+  const existingGistsMap = new Map(existingGists.map((gist) => [gist.id, gist]));
+
+  const gistRecords: GistRecord[] = gists.map((gist) => {
+    const existing = existingGistsMap.get(gist.id);
+    return {
+      ...gist,
+      key: recordKey(ctx.host, gist.id),
+      host: ctx.host,
+      account: accountLogin ?? undefined,
+      last_fetched_at: Date.now(),
+      visit_count: existing?.visit_count,
+      last_visited_at: existing?.last_visited_at,
+      first_visited_at: existing?.first_visited_at,
+    };
+  });
+
+  const fetchedIds = new Set(gists.map((gist) => gist.id));
+  const missingKeys = existingGists.filter((gist) => !fetchedIds.has(gist.id)).map((g) => g.key);
+  await saveGists(gistRecords);
+  await deleteGists(missingKeys);
+  run.removed.gists += missingKeys.length;
+  recordChanges(ctx, existingGistsMap, [...fetchedIds], missingKeys.length);
+  console.warn(`[Import] ✓ ${accountLogin}: ${gists.length} gists`);
+  return gists.length;
+}
+
+/**
+ * Replace the stored Projects (v2) of an account with those of its organizations
+ * An organization that can't be read (e.g. token without the read:project scope) keeps its
+ * stored projects rather than losing them
+ */
+async function syncAccountProjects(
+  accountLogin: string | null,
+  ctx: GitHubRequestContext,
+  run: ImportRun,
+): Promise<number> {
+  const orgs = await fetchUserOrganizations(ctx);
+
+  const projects: GitHubProject[] = [];
+  const syncedOrgs = new Set<string>();
+  for (const org of orgs) {
+    try {
+      projects.push(...(await fetchOrgProjects(org.login, ctx)));
+      syncedOrgs.add(org.login.toLowerCase());
+    } catch (err) {
+      console.error(`[Import] ✗ Failed to fetch projects of ${org.login}:`, err);
+    }
+  }
+
+  const existingProjects = (await getAllProjects()).filter(
+    (project) => project.account === (accountLogin ?? undefined) && project.host === ctx.host,
+  );
+  const projectRecords: ProjectRecord[] = projects.map((project) => ({
+    ...project,
+    key: recordKey(ctx.host, project.id),
+    host: ctx.host,
+    account: accountLogin ?? undefined,
+    last_fetched_at: Date.now(),
+  }));
+
+  const fetchedIds = new Set(projects.map((project) => project.id));
+  const missingKeys = existingProjects
+    .filter(
+      (project) => !fetchedIds.has(project.id) && syncedOrgs.has(project.owner.login.toLowerCase()),
+    )
+    .map((project) => project.key);
+  await saveProjects(projectRecords);
+  await deleteProjects(missingKeys);
+  run.removed.projects += missingKeys.length;
+  recordChanges(
+    ctx,
+    new Set(existingProjects.map((project) => project.id)),
+    [...fetchedIds],
+    missingKeys.length,
+  );
+  console.warn(
+    `[Import] ✓ ${accountLogin}: ${projects.length} projects from ${syncedOrgs.size}/${orgs.length} organizations`,
+  );
+  return projects.length;
+}
+
+/**
+ * Point a renamed repo's stored issues and PRs at its new URL (visit history stays with the ids)
+ */
+async function rekeyRenamedRepo(previous: RepoRecord, repo: GitHubRepo): Promise<void> {
+  const repoKey = previous.key;
+  const oldPrefix = `${previous.html_url}/`;
+  const newPrefix = `${repo.html_url}/`;
+  const rekey = <T extends { html_url: string }>(record: T): T =>
+    record.html_url.startsWith(oldPrefix)
+      ? { ...record, html_url: newPrefix + record.html_url.slice(oldPrefix.length) }
+      : record;
+
+  await saveIssues((await getIssuesByRepo(repoKey)).map(rekey));
+  await savePullRequests((await getPullRequestsByRepo(repoKey)).map(rekey));
+  await saveDiscussions((await getDiscussionsByRepo(repoKey)).map(rekey));
+  await saveReleases((await getReleasesByRepo(repoKey)).map(rekey));
+  await saveMilestones((await getMilestonesByRepo(repoKey)).map(rekey));
+  await saveWorkflowRuns((await getWorkflowRunsByRepo(repoKey)).map(rekey));
+  console.warn(`[Import] Repo renamed: ${previous.full_name} → ${repo.full_name}`);
+}
+
+/**
+ * Whether GitHub confirms a repo is gone (deleted, or the account lost access) with a 404
+ * Any other failure leaves it unknown
+ */
+async function isRepoGone(repo: RepoRecord, ctx: GitHubRequestContext): Promise<boolean> {
+  try {
+    await fetchRepo(repo.full_name, ctx);
+    return false;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    return isNotFoundError(error);
+  }
+}
+
+/**
+ * Delete stored repos (with their issues and PRs) that no account of the run returned
+ * Only hosts whose every listing answered count; there a repo goes once GitHub answers 404 for it,
+ * or after it was missing from MISSING_REPO_RUNS_BEFORE_REMOVAL imports in a row
+ */
+async function removeMissingRepos(run: ImportRun, contexts: GitHubRequestContext[]): Promise<void> {
+  const previousMisses = ((await getMeta(MISSING_REPO_RUNS_KEY)) ?? {}) as Record<string, number>;
+  const misses: Record<string, number> = {};
+  const missingRepos: RepoRecord[] = [];
+
+  for (const repo of await getAllRepos()) {
+    if (run.importedRepoKeys.has(repo.key)) {
+      continue;
+    }
+
+    const host = repo.host ?? DEFAULT_WEB_HOST;
+    const ctx = contexts.find((c) => (c.host ?? DEFAULT_WEB_HOST) === host);
+    if (!ctx || run.incompleteHosts.has(host)) {
+      // Host not imported (e.g. signed out) or partly unanswered: keep the count as it was
+      if (previousMisses[repo.key]) misses[repo.key] = previousMisses[repo.key];
+      continue;
+    }
+
+    const missedRuns = (previousMisses[repo.key] ?? 0) + 1;
+    if (missedRuns >= MISSING_REPO_RUNS_BEFORE_REMOVAL || (await isRepoGone(repo, ctx))) {
+      missingRepos.push(repo);
+    } else {
+      misses[repo.key] = missedRuns;
+    }
+  }
+
+  await setMeta(MISSING_REPO_RUNS_KEY, misses);
+  if (missingRepos.length === 0) {
+    return;
+  }
+
+  const removed = await deleteRepos(missingRepos.map((repo) => repo.key));
+  // Should a repo come back, its issues and branches need a full sync again
+  await deleteMeta(
+    missingRepos.flatMap((repo) => [
+      `${ISSUE_SYNC_CURSOR_PREFIX}${repo.key}`,
+      `${BRANCHES_FETCHED_AT_PREFIX}${repo.key}`,
+    ]),
+  );
+  run.removed.repos += missingRepos.length;
+  run.removed.issues += removed.issues;
+  run.removed.pullRequests += removed.pullRequests;
+  run.removed.discussions += removed.discussions;
+  run.removed.releases += removed.releases;
+  run.removed.milestones += removed.milestones;
+  run.removed.workflowRuns += removed.workflowRuns;
+  run.stats.removed +=
+    missingRepos.length +
+    removed.issues +
+    removed.pullRequests +
+    removed.discussions +
+    removed.releases +
+    removed.milestones +
+    removed.workflowRuns;
+  console.warn(
+    `[Import] Removed ${missingRepos.length} repos no longer accessible (${missingRepos.map((r) => r.full_name).join(', ')}) with ${removed.issues} issues and ${removed.pullRequests} PRs`,
+  );
+}
+
 /**
  * Main import function - imports all data from GitHub to IndexedDB
  * Saves data in chunks as it fetches, so UI can display partial results
  * @param onProgress Optional callback called when progress is made (repos saved, repo processed)
+ * @param signal Cancels the import; repos synced so far stay checkpointed for the next run
+ * @param trigger What started the import (recorded in the sync history)
  */
-export async function runImport(onProgress?: ImportProgressCallback): Promise<void> {
+export async function runImport(
+  onProgress?: ImportProgressCallback,
+  signal?: AbortSignal,
+  trigger: SyncRunTrigger = 'scheduled',
+): Promise<void> {
   const canRun = await shouldRunImport();
   if (!canRun) {
     console.warn('[Import] Skipping import - shouldRunImport returned false');
@@ -212,423 +1197,783 @@ export async function runImport(onProgress?: ImportProgressCallback): Promise<vo
   }
 
   console.warn('[Import] Starting import...');
+  const startedAt = Date.now();
+  const stats = createSyncRunStats();
+  let resumed = false;
 
   try {
-    // Step 0: Get import preferences and user info
+    // Step 0: Get import preferences and the accounts to import from
     const preferences = await getImportPreferences();
-    const user = await getAuthenticatedUser();
-    const accountLogin = user.login || null;
-    console.warn(`[Import] Importing account: ${accountLogin}`);
+    const contexts = (await getImportContexts()).map((ctx) => ({ ...ctx, signal, stats }));
+    if (contexts.length === 0) {
+      throw new Error('No GitHub token found. Please authenticate in extension settings.');
+    }
     console.warn(
       `[Import]Preferences: Issues=${preferences.importIssues}, PRs=${preferences.importPullRequests}`,
     );
 
+    // Pick up where an interrupted run stopped (e.g. the service worker was suspended mid-import)
+    const checkpoint = await getImportCheckpoint();
+    resumed = !!checkpoint;
+    if (checkpoint?.stats) {
+      // Count what the interrupted part of the run did too (contexts share this object)
+      Object.assign(stats, checkpoint.stats, { repos: new Set(checkpoint.stats.repos) });
+    }
+    if (checkpoint) {
+      console.warn(
+        `[Import] Resuming import started at ${new Date(checkpoint.startedAt).toLocaleTimeString()} (${checkpoint.completedAccounts.length} accounts done)`,
+      );
+    }
+
     // Mark import as running
     await updateImportStatus({
       isRunning: true,
       lastStartedAt: Date.now(),
       lastError: null,
-      accountLogin,
-      progress: {
+      resumedAt: checkpoint ? Date.now() : null,
+      progress: checkpoint?.totals ?? {
         totalRepos: 0,
         indexedRepos: 0,
         nonIndexedRepos: 0,
         issuesProgress: 0,
         prsProgress: 0,
-        currentRepo: null,
+        reposInFlight: [],
       },
     });
 
-    // Step 1: Fetch all repos (user + organizations) and count them
-    console.warn('[Import] Fetching repositories (user + organizations)...');
-    const { repos: allRepos, personalForkParentRepoIds } = await getAllAccessibleRepos(
-      accountLogin || undefined,
-    );
-    const forkParentRepoIds = new Set(personalForkParentRepoIds);
-    console.warn(
-      `[Import] Found ${allRepos.length} total repositories (${forkParentRepoIds.size} upstream(s) of your forks)`,
-    );
+    const run: ImportRun = {
+      preferences,
+      totals: checkpoint?.totals ?? {
+        totalRepos: 0,
+        indexedRepos: 0,
+        nonIndexedRepos: 0,
+        issuesProgress: 0,
+        prsProgress: 0,
+        reposInFlight: [],
+      },
+      accountLogins: checkpoint?.accountLogins ?? [],
+      importedRepoKeys: new Set(checkpoint?.importedRepoKeys),
+      indexedRepoKeys: new Set(checkpoint?.indexedRepoKeys),
+      incompleteHosts: new Set(checkpoint?.incompleteHosts),
+      removed: checkpoint?.removed ?? {
+        repos: 0,
+        issues: 0,
+        pullRequests: 0,
+        discussions: 0,
+        releases: 0,
+        milestones: 0,
+        workflowRuns: 0,
+        gists: 0,
+        projects: 0,
+        renamedRepos: [],
+      },
+      onProgress,
+      startedAt: checkpoint?.startedAt ?? Date.now(),
+      completedAccounts: checkpoint?.completedAccounts ?? [],
+      resumeAccount: checkpoint?.account ?? null,
+      stats,
+    };
 
-    // Step 1.5: Load organization filters (applied later for indexing, not for saving)
-    const orgFilters = await getOrgFilterPreferences();
-    const hasFilters = Object.keys(orgFilters.enabledOrgs).length > 0;
+    for (const ctx of contexts) {
+      if (run.completedAccounts.includes(contextLabel(ctx))) {
+        continue; // Imported before the interruption
+      }
+      await importAccount(ctx, run);
+      run.completedAccounts.push(contextLabel(ctx));
+      await saveImportCheckpoint(run, null);
+    }
+    const { totals } = run;
 
-    // Helper to check if a repo's org is enabled for indexing
-    const isOrgEnabledForIndexing = (repo: { full_name: string; id: number }): boolean => {
-      const owner = repo.full_name.split('/')[0];
+    // Every account imported fine: repos none of them returned may be gone (deleted or access lost)
+    await removeMissingRepos(run, contexts);
 
-      // If no filters set yet, include everything (first-time setup)
-      if (!hasFilters) {
-        return true;
-      }
+    // Update organization list from imported repos (including external orgs)
+    await syncOrganizationListFromRepos();
 
-      // If org is in the filter list, respect the setting
-      // This applies to all repos including fork parents - user can enable/disable as needed
-      if (owner in orgFilters.enabledOrgs) {
-        return orgFilters.enabledOrgs[owner] === true;
-      }
+    // Drop stale conditional-request cache entries (e.g. repos we no longer see)
+    const prunedEntries = await pruneHttpCache(HTTP_CACHE_MAX_AGE_MS);
+    if (prunedEntries > 0) {
+      console.warn(`[Import] Pruned ${prunedEntries} stale HTTP cache entries`);
+    }
 
-      // If org is not in filter list but filters exist, exclude by default
-      return false;
-    };
+    // Mark import as completed successfully
+    await setMeta(IMPORT_CHECKPOINT_KEY, null);
+    await updateImportStatus({
+      isRunning: false,
+      lastCompletedAt: Date.now(),
+      lastError: null,
+      accountLogins: run.accountLogins,
+      removed: run.removed,
+      progress: totals,
+    });
 
-    // Check contributor status and determine "repos of interest"
-    // NOTE: We process ALL repos so they all get saved to database (for settings UI)
-    // Org filter is applied later when selecting repos to INDEX (fetch PRs/issues)
-    console.warn('[Import] Checking contributor status and repos of interest...');
-    const repoRecords = await Promise.all(
-      allRepos.map(async (repo) => {
-        const [owner, repoName] = repo.full_name.split('/');
-        let meContributing = false;
-        let lastContributedAt: string | null = null;
-
-        try {
-          meContributing = await isUserContributor(owner, repoName, accountLogin);
-
-          // If user is a contributor, get the date of their last contribution
-          if (meContributing) {
-            lastContributedAt = await getLastContributionDate(owner, repoName, accountLogin);
-          }
-        } catch (err) {
-          console.warn(`[Import]Could not check contributor status for ${repo.full_name}:`, err);
-        }
+    console.warn(
+      `[Import]✓ Import completed: ${totals.indexedRepos} indexed repos, ${totals.nonIndexedRepos} non-indexed (skipped)`,
+    );
+    await recordSyncRun('full_import', trigger, startedAt, stats, { resumed });
+  } catch (error) {
+    await recordSyncRun('full_import', trigger, startedAt, stats, { error, resumed });
 
-        // Get existing repo to preserve indexed_manually flag AND visit tracking
-        const existingRepo = await getRepo(repo.id);
-        const indexedManually = existingRepo?.indexed_manually || false;
+    if (isAbortError(error)) {
+      console.warn('[Import] Import cancelled');
+      await updateImportStatus({
+        isRunning: false,
+        lastError: IMPORT_CANCELLED_MESSAGE,
+      });
+      return;
+    }
 
-        // Check if user owns this repo (personal repos)
-        // Use case-insensitive comparison since GitHub usernames are case-insensitive
-        const isOwnedByMe = accountLogin
-          ? repo.owner.login.toLowerCase() === accountLogin.toLowerCase()
-          : false;
-        const isParentOfMyFork = forkParentRepoIds.has(repo.id);
-
-        // Determine if this is a "repo of interest"
-        const indexed = isRepoOfInterest({
-          pushed_at: repo.pushed_at,
-          me_contributing: meContributing,
-          indexed_manually: indexedManually,
-          is_owned_by_me: isOwnedByMe,
-          is_parent_of_my_fork: isParentOfMyFork,
-        });
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Import] ✗ Import failed:', errorMessage);
 
-        return {
-          ...repo,
-          last_fetched_at: Date.now(),
-          me_contributing: meContributing,
-          last_contributed_at: lastContributedAt || undefined,
-          indexed_manually: indexedManually,
-          is_parent_of_my_fork: isParentOfMyFork,
-          prs_only_my_involvement: isParentOfMyFork,
-          indexed,
-          // Preserve visit tracking from existing record
-          visit_count: existingRepo?.visit_count,
-          last_visited_at: existingRepo?.last_visited_at,
-          first_visited_at: existingRepo?.first_visited_at,
-        };
-      }),
+    // Mark import as failed
+    await updateImportStatus({
+      isRunning: false,
+      lastError: errorMessage,
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Import repos, issues and PRs for a single account (github.com or an enterprise host)
+ * The first account of the run is shown as the import account; its counts are added to
+ * run.totals on completion. Resumes from run.resumeAccount when the run stopped in this account.
+ */
+async function importAccount(ctx: GitHubRequestContext, run: ImportRun): Promise<void> {
+  const { preferences, totals, onProgress } = run;
+  const label = contextLabel(ctx);
+  const resumed = run.resumeAccount?.label === label ? run.resumeAccount : null;
+  run.resumeAccount = null;
+  if (resumed) {
+    console.warn(
+      `[Import] Resuming ${label} at ${resumed.phase} (${resumed.repoQueue.length} repos left)`,
     );
+  }
 
-    // Save all repos immediately (so UI can show them in settings)
-    await saveRepos(repoRecords);
-    console.warn(`[Import] Saved ${repoRecords.length} repositories to database`);
+  const account = resumed ?? (await importAccountRepos(ctx, run));
+  const { accountLogin } = account;
+  const reposToSync = (await Promise.all(account.repoQueue.map((key) => getRepo(key)))).filter(
+    (repo): repo is RepoRecord => !!repo,
+  );
+  const reposToSyncCount = account.reposDone + account.repoQueue.length;
+
+  let issuesCount = account.reposDone;
+  let prsCount = account.reposDone;
+  const reposLeft = new Set(account.repoQueue);
+  const reposInFlight = new Set<string>();
+
+  // Progress of this account on top of the accounts imported before it
+  const progressWith = (): ImportStatus['progress'] => ({
+    totalRepos: totals.totalRepos + account.totalRepos,
+    indexedRepos: totals.indexedRepos + reposToSyncCount,
+    nonIndexedRepos: totals.nonIndexedRepos + account.nonIndexedRepos,
+    issuesProgress: totals.issuesProgress + issuesCount,
+    prsProgress: totals.prsProgress + prsCount,
+    reposInFlight: [...reposInFlight],
+  });
 
-    // Get repos of interest (candidates for indexing)
-    // Apply org filter HERE - only index repos from enabled orgs
-    const reposOfInterest = repoRecords.filter(
-      (repo) => repo.indexed && isOrgEnabledForIndexing(repo),
+  // Update progress with repo counts
+  await updateImportStatus({ progress: progressWith() });
+
+  // Step 2: Fetch issues, PRs, discussions and releases for indexed repos only (based on preferences)
+  const importTargets = [];
+  if (preferences.importIssues) importTargets.push('issues');
+  if (preferences.importPullRequests) importTargets.push('PRs');
+  if (preferences.importDiscussions) importTargets.push('discussions');
+  if (preferences.importReleases)
+    importTargets.push(preferences.importTags ? 'releases/tags' : 'releases');
+  if (preferences.importMilestones) importTargets.push('milestones');
+  if (preferences.importWorkflowRuns) importTargets.push('workflow runs');
+
+  if (importTargets.length > 0) {
+    console.warn(
+      `[Import]Syncing ${importTargets.join(', ')} for ${reposToSync.length} indexed repos...`,
     );
+  } else {
     console.warn(
-      `[Import] After organization filters: ${reposOfInterest.length} repos to index (${repoRecords.length - reposOfInterest.length} filtered by org settings)`,
+      '[Import] Skipping issues, PRs, discussions, releases and workflow runs (disabled in preferences)',
     );
+  }
 
-    // Apply limit: take top MAX_INDEXED_REPOS
-    // Sort by: Personal repos → Own organizations → External organizations
-    // Within each category: manually indexed → contributing → recent activity
-    const indexedRepos = reposOfInterest
-      .sort((a, b) => {
-        // Helper function to get organization category
-        const getOrgCategory = (repo: typeof a): number => {
-          const owner = repo.full_name.split('/')[0];
-          // Personal repos (owner === current user): priority 0
-          // Use case-insensitive comparison since GitHub usernames are case-insensitive
-          if (accountLogin && owner.toLowerCase() === accountLogin.toLowerCase()) return 0;
-          // Own orgs (NOT fork parents): priority 1
-          if (!repo.is_parent_of_my_fork) return 1;
-          // External orgs (fork parents only): priority 2
-          return 2;
-        };
+  const syncRepo = async (repo: RepoRecord, index: number): Promise<void> => {
+    ctx.signal?.throwIfAborted();
+    reposInFlight.add(repo.full_name);
+    ctx.stats?.repos.add(repo.full_name);
+    try {
+      const [owner, repoName] = repo.full_name.split('/');
 
-        const categoryA = getOrgCategory(a);
-        const categoryB = getOrgCategory(b);
+      // Show the repo as in flight
+      await updateImportStatus({ progress: progressWith() });
 
-        // Sort by category first (personal → own orgs → external orgs)
-        if (categoryA !== categoryB) return categoryA - categoryB;
+      console.warn(
+        `[Import] [${account.reposDone + index + 1}/${reposToSyncCount}] Processing ${repo.full_name}...`,
+      );
 
-        // Within same category, apply existing priority logic:
+      // Build promises array based on preferences
+      const promises: Promise<number>[] = [];
+      const shouldLimitToMyPRs = !!(repo.prs_only_my_involvement && accountLogin);
+
+      // Fetch issues if enabled
+      if (preferences.importIssues) {
+        promises.push(
+          syncRepoIssues(repo, accountLogin, ctx)
+            .then(async ({ fetched, removed }) => {
+              issuesCount++;
+              run.removed.issues += removed;
+              // Update progress after issues saved
+              await updateImportStatus({ progress: progressWith() });
+              return fetched;
+            })
+            .catch((err) => {
+              console.error(`[Import]✗ Failed to fetch issues for ${repo.full_name}:`, err);
+              recordRepoError(ctx, repo.full_name, 'issues', err);
+              issuesCount++; // Still increment to keep progress moving
+              return 0;
+            }),
+        );
+      } else {
+        // If not importing issues, increment count to match indexedRepos
+        issuesCount++;
+      }
 
-        // Manually indexed first
-        if (a.indexed_manually && !b.indexed_manually) return -1;
-        if (!a.indexed_manually && b.indexed_manually) return 1;
+      // Fetch PRs if enabled
+      if (preferences.importPullRequests) {
+        promises.push(
+          (shouldLimitToMyPRs
+            ? fetchUserInvolvedPullRequests(owner, repoName, accountLogin!, ctx)
+            : fetchRepoPullRequests(owner, repoName, ctx)
+          )
+            .then(async (prs) => {
+              // Get existing PRs to preserve visit tracking
+              const { getPullRequestsByRepo: getExistingPRs } = await import('@/src/storage/db');
+              const existingPRs = await getExistingPRs(repo.key);
+              const existingPRsMap = new Map(existingPRs.map((pr) => [pr.id, pr]));
+
+              const prRecords: PullRequestRecord[] = prs.map((pr) => {
+                const existing = existingPRsMap.get(pr.id);
+                return {
+                  ...pr,
+                  key: recordKey(repo.host, pr.id),
+                  merged: pr.merged_at !== null, // Compute merged from merged_at
+                  repo_key: repo.key,
+                  account: accountLogin ?? undefined,
+                  last_fetched_at: Date.now(),
+                  // Preserve visit tracking from existing record
+                  visit_count: existing?.visit_count,
+                  last_visited_at: existing?.last_visited_at,
+                  first_visited_at: existing?.first_visited_at,
+                };
+              });
+              return savePullRequests(prRecords).then(async () => {
+                recordChanges(
+                  ctx,
+                  existingPRsMap,
+                  prs.map((pr) => pr.id),
+                );
+                prsCount++;
+                console.warn(`[Import] ✓ ${repo.full_name}: ${prs.length} PRs`);
+                // Update progress after PRs saved
+                await updateImportStatus({ progress: progressWith() });
+                return prs.length;
+              });
+            })
+            .catch((err) => {
+              console.error(`[Import]✗ Failed to fetch PRs for ${repo.full_name}:`, err);
+              recordRepoError(ctx, repo.full_name, 'PRs', err);
+              prsCount++; // Still increment to keep progress moving
+              return 0;
+            }),
+        );
+      } else {
+        // If not importing PRs, increment count to match indexedRepos
+        prsCount++;
+      }
 
-        // Contributing repos second
-        if (a.me_contributing && !b.me_contributing) return -1;
-        if (!a.me_contributing && b.me_contributing) return 1;
+      // Fetch discussions if enabled (not tracked in progress: many repos have none)
+      if (preferences.importDiscussions) {
+        promises.push(
+          syncRepoDiscussions(repo, accountLogin, ctx).catch((err) => {
+            console.error(`[Import]✗ Failed to fetch discussions for ${repo.full_name}:`, err);
+            recordRepoError(ctx, repo.full_name, 'discussions', err);
+            return 0;
+          }),
+        );
+      }
 
-        // Then by most recent activity
-        const pushA = a.pushed_at ? new Date(a.pushed_at).getTime() : 0;
-        const pushB = b.pushed_at ? new Date(b.pushed_at).getTime() : 0;
-        return pushB - pushA;
-      })
-      .slice(0, MAX_INDEXED_REPOS);
+      // Fetch releases if enabled (not tracked in progress either)
+      if (preferences.importReleases) {
+        promises.push(
+          syncRepoReleases(repo, accountLogin, preferences.importTags, ctx).catch((err) => {
+            console.error(`[Import]✗ Failed to fetch releases for ${repo.full_name}:`, err);
+            recordRepoError(ctx, repo.full_name, 'releases', err);
+            return 0;
+          }),
+        );
+      }
 
-    // Update indexed flag for repos that made the cut
-    const finalRepoRecords = repoRecords.map((repo) => ({
-      ...repo,
-      indexed: indexedRepos.includes(repo),
-    }));
+      // Fetch milestones if enabled (not tracked in progress either)
+      if (preferences.importMilestones) {
+        promises.push(
+          syncRepoMilestones(repo, accountLogin, ctx).catch((err) => {
+            console.error(`[Import]✗ Failed to fetch milestones for ${repo.full_name}:`, err);
+            recordRepoError(ctx, repo.full_name, 'milestones', err);
+            return 0;
+          }),
+        );
+      }
 
-    // Save updated indexed flags
-    await saveRepos(finalRepoRecords);
+      // Wait for all enabled fetches to complete (they won't throw since we catch errors individually)
+      await Promise.all(promises);
 
-    // Notify that repos have been saved (triggers cache invalidation + UI update)
-    onProgress?.('repos_saved');
+      // Fetch workflow runs once PRs are in, so the branches of my open PRs are known
+      if (preferences.importWorkflowRuns) {
+        await syncRepoWorkflowRuns(repo, accountLogin, ctx).catch((err) => {
+          console.error(`[Import]✗ Failed to fetch workflow runs for ${repo.full_name}:`, err);
+          recordRepoError(ctx, repo.full_name, 'workflow runs', err);
+          return 0;
+        });
+      }
 
-    const nonIndexedRepos = finalRepoRecords.filter((repo) => !repo.indexed);
+      // Index bodies (and comments) for full-text search once issues and PRs are in
+      if (preferences.importBodies) {
+        await syncRepoFullText(repo, preferences.importComments, ctx).catch((err) => {
+          console.error(`[Import]✗ Failed to index text of ${repo.full_name}:`, err);
+          recordRepoError(ctx, repo.full_name, 'full-text', err);
+          return 0;
+        });
+      }
 
-    console.warn(
-      `[Import] ✓ Saved ${allRepos.length} repos to DB (${repoRecords.filter((r) => r.me_contributing).length} where you contribute)`,
-    );
-    console.warn(
-      `[Import]✓ Selected ${indexedRepos.length}/${reposOfInterest.length} repos of interest for indexing (limit: ${MAX_INDEXED_REPOS})`,
-    );
+      // Notify that a repo has been fully processed (triggers cache invalidation + UI update)
+      onProgress?.('repo_processed');
+    } catch (err) {
+      // This should rarely be reached now, but keep as safety net
+      console.error(`[Import] ✗ Unexpected error for ${repo.full_name}:`, err);
+      recordRepoError(ctx, repo.full_name, 'sync', err);
+      // Ensure counters are incremented so we don't get stuck
+      if (issuesCount < reposToSyncCount) issuesCount++;
+      if (prsCount < reposToSyncCount) prsCount++;
+    } finally {
+      reposInFlight.delete(repo.full_name);
+    }
+    await updateImportStatus({ progress: progressWith() });
+
+    // Checkpoint after every repo, so an interrupted run doesn't sync it again
+    // (a cancelled repo's fetches failed part-way: it isn't done)
+    ctx.signal?.throwIfAborted();
+    reposLeft.delete(repo.key);
+    await saveImportCheckpoint(run, {
+      ...account,
+      repoQueue: account.repoQueue.filter((key) => reposLeft.has(key)),
+      reposDone: reposToSyncCount - reposLeft.size,
+    });
+  };
+
+  // Several repos sync at once; their requests share the API request queue
+  await mapWithConcurrency(reposToSync, syncRepo, preferences.syncConcurrency);
+
+  // Step 3: Sync the account's own gists (not tied to any repo)
+  if (preferences.importGists && account.phase !== 'projects') {
+    await saveImportCheckpoint(run, {
+      ...account,
+      phase: 'gists',
+      repoQueue: [],
+      reposDone: reposToSyncCount,
+    });
+    try {
+      await syncAccountGists(accountLogin, ctx, run);
+      onProgress?.('repo_processed');
+    } catch (err) {
+      console.error(`[Import] ✗ Failed to fetch gists for ${label}:`, err);
+    }
+  }
+
+  // Step 4: Sync the Projects (v2) of the account's organizations
+  if (preferences.importProjects) {
+    await saveImportCheckpoint(run, {
+      ...account,
+      phase: 'projects',
+      repoQueue: [],
+      reposDone: reposToSyncCount,
+    });
+    try {
+      await syncAccountProjects(accountLogin, ctx, run);
+      onProgress?.('repo_processed');
+    } catch (err) {
+      console.error(`[Import] ✗ Failed to fetch projects for ${label}:`, err);
+    }
+  }
 
+  // Cancelled during gists or projects: the account isn't done
+  ctx.signal?.throwIfAborted();
+
+  // Fold this account's counts into the running totals
+  Object.assign(totals, progressWith());
+}
+
+/**
+ * Step 1 of an account's import: fetch its repos, save them and pick the ones to index
+ * @returns Where the account's import stands (checkpointed, so a resumed run skips this step)
+ */
+async function importAccountRepos(
+  ctx: GitHubRequestContext,
+  run: ImportRun,
+): Promise<AccountCheckpoint> {
+  const { preferences, onProgress } = run;
+  const user = await getAuthenticatedUser(ctx);
+  const accountLogin = user.login || null;
+  console.warn(`[Import] Importing account: ${accountLogin} (${contextLabel(ctx)})`);
+
+  if (run.accountLogins.length === 0) {
+    await updateImportStatus({ accountLogin });
+  }
+  if (accountLogin) {
+    run.accountLogins.push(accountLogin);
+  }
+
+  // Step 1: Fetch all repos (user + organizations) and count them
+  console.warn(
+    `[Import] Fetching repositories from ${contextLabel(ctx)} (user + organizations)...`,
+  );
+  const {
+    repos: accessibleRepos,
+    personalForkParentRepoIds,
+    complete,
+  } = await fetchAllRepos(accountLogin || undefined, ctx);
+  if (!complete) {
     console.warn(
-      `[Import] Indexed repos: ${indexedRepos.length}, Non-indexed repos: ${nonIndexedRepos.length} (skipping import)`,
+      `[Import] Repo listing of ${contextLabel(ctx)} is incomplete, keeping missing repos`,
     );
+    run.incompleteHosts.add(ctx.host ?? DEFAULT_WEB_HOST);
+  }
+  const forkParentRepoIds = new Set(personalForkParentRepoIds);
+
+  // Starred repos the account doesn't otherwise reach (e.g. OSS projects)
+  const accessibleRepoIds = new Set(accessibleRepos.map((repo) => repo.id));
+  const starredRepos = preferences.importStarred
+    ? (await fetchStarredRepos(ctx)).filter((repo) => !accessibleRepoIds.has(repo.id))
+    : [];
+  const starredRepoIds = new Set(starredRepos.map((repo) => repo.id));
+  const allRepos = [...accessibleRepos, ...starredRepos];
+  console.warn(
+    `[Import] Found ${allRepos.length} total repositories (${forkParentRepoIds.size} upstream(s) of your forks, ${starredRepoIds.size} starred)`,
+  );
 
-    // Update progress with repo counts
-    await updateImportStatus({
-      accountLogin,
-      progress: {
-        totalRepos: allRepos.length,
-        indexedRepos: indexedRepos.length,
-        nonIndexedRepos: nonIndexedRepos.length,
-        issuesProgress: 0,
-        prsProgress: 0,
-        currentRepo: null,
-      },
-    });
+  // Step 1.5: Load organization filters (applied later for indexing, not for saving)
+  const orgFilters = await getOrgFilterPreferences();
+  const hasFilters = Object.keys(orgFilters.enabledOrgs).length > 0;
 
-    // Step 2: Fetch issues and PRs for indexed repos only (based on preferences)
-    const importTargets = [];
-    if (preferences.importIssues) importTargets.push('issues');
-    if (preferences.importPullRequests) importTargets.push('PRs');
+  // Helper to check if a repo's org is enabled for indexing
+  const isOrgEnabledForIndexing = (repo: { full_name: string; id: number }): boolean => {
+    const owner = repo.full_name.split('/')[0];
 
-    if (importTargets.length > 0) {
-      console.warn(
-        `[Import]Syncing ${importTargets.join(' and ')} for ${indexedRepos.length} indexed repos...`,
-      );
-    } else {
-      console.warn('[Import] Skipping issues and PRs (disabled in preferences)');
+    // If no filters set yet, include everything (first-time setup)
+    if (!hasFilters) {
+      return true;
     }
 
-    let issuesCount = 0;
-    let prsCount = 0;
+    // If org is in the filter list, respect the setting
+    // This applies to all repos including fork parents - user can enable/disable as needed
+    if (owner in orgFilters.enabledOrgs) {
+      return orgFilters.enabledOrgs[owner] === true;
+    }
 
-    for (const repo of indexedRepos) {
-      try {
-        const [owner, repoName] = repo.full_name.split('/');
+    // If org is not in filter list but filters exist, exclude by default
+    return false;
+  };
 
-        // Update current repo in progress
-        await updateImportStatus({
-          progress: {
-            totalRepos: allRepos.length,
-            indexedRepos: indexedRepos.length,
-            nonIndexedRepos: nonIndexedRepos.length,
-            issuesProgress: issuesCount,
-            prsProgress: prsCount,
-            currentRepo: repo.full_name,
-          },
-        });
+  // Check contributor status and determine "repos of interest"
+  // NOTE: We process ALL repos so they all get saved to database (for settings UI)
+  // Org filter is applied later when selecting repos to INDEX (fetch PRs/issues)
+  console.warn('[Import] Checking contributor status and repos of interest...');
+  // Starred repos are skipped: checking contributions to every starred project is costly
+  const contributions = await fetchContributions(
+    accessibleRepos,
+    user,
+    ctx,
+    preferences.syncConcurrency,
+  );
+  // Contribution checks swallow errors: when cancelled, their "not contributing" can't be saved
+  ctx.signal?.throwIfAborted();
+  const storedRepoIds = new Set<number>();
+  const repoRecords = await Promise.all(
+    allRepos.map(async (repo) => {
+      const key = recordKey(ctx.host, repo.id);
+      // Get existing repo to preserve indexed_manually flag AND visit tracking
+      const existingRepo = await getRepo(key);
+      if (existingRepo) storedRepoIds.add(repo.id);
+      if (existingRepo && existingRepo.full_name !== repo.full_name) {
+        await rekeyRenamedRepo(existingRepo, repo);
+        run.removed.renamedRepos.push(`${existingRepo.full_name} → ${repo.full_name}`);
+      }
+      const indexedManually = existingRepo?.indexed_manually || false;
+
+      // Another account of this run already saved the repo: keep its contribution status
+      const seenThisRun = run.importedRepoKeys.has(key);
+      const meContributing =
+        (contributions.get(repo.id)?.meContributing ?? false) ||
+        (seenThisRun && !!existingRepo?.me_contributing);
+      const lastContributedAt =
+        contributions.get(repo.id)?.lastContributedAt ??
+        (seenThisRun ? existingRepo?.last_contributed_at : null) ??
+        null;
+
+      // Check if user owns this repo (personal repos)
+      // Use case-insensitive comparison since GitHub usernames are case-insensitive
+      const isOwnedByMe = accountLogin
+        ? repo.owner.login.toLowerCase() === accountLogin.toLowerCase()
+        : false;
+      const isParentOfMyFork = forkParentRepoIds.has(repo.id);
+      // Stays starred only if no other account of this run can reach the repo directly
+      const isStarred = starredRepoIds.has(repo.id) && (!seenThisRun || !!existingRepo?.is_starred);
+
+      // Determine if this is a "repo of interest"
+      const indexed = isRepoOfInterest({
+        pushed_at: repo.pushed_at,
+        me_contributing: meContributing,
+        indexed_manually: indexedManually,
+        is_owned_by_me: isOwnedByMe,
+        is_parent_of_my_fork: isParentOfMyFork,
+        is_starred: isStarred,
+      });
 
-        console.warn(
-          `[Import] [${Math.max(issuesCount, prsCount) + 1}/${indexedRepos.length}] Processing ${repo.full_name}...`,
-        );
+      return {
+        ...repo,
+        key,
+        host: ctx.host,
+        accounts: withAccount(seenThisRun ? existingRepo?.accounts : [], accountLogin),
+        last_fetched_at: Date.now(),
+        me_contributing: meContributing,
+        last_contributed_at: lastContributedAt || undefined,
+        indexed_manually: indexedManually,
+        is_parent_of_my_fork: isParentOfMyFork,
+        prs_only_my_involvement: isParentOfMyFork,
+        is_starred: isStarred,
+        indexed,
+        // Preserve visit tracking from existing record
+        visit_count: existingRepo?.visit_count,
+        last_visited_at: existingRepo?.last_visited_at,
+        first_visited_at: existingRepo?.first_visited_at,
+      };
+    }),
+  );
 
-        // Build promises array based on preferences
-        const promises: Promise<number>[] = [];
-        const shouldLimitToMyPRs = !!(repo.prs_only_my_involvement && accountLogin);
-
-        // Fetch issues if enabled
-        if (preferences.importIssues) {
-          promises.push(
-            getRepoIssues(owner, repoName, 'all')
-              .then(async (issues) => {
-                // Get existing issues to preserve visit tracking
-                const { getIssuesByRepo: getExistingIssues } = await import('@/src/storage/db');
-                const existingIssues = await getExistingIssues(repo.id);
-                const existingIssuesMap = new Map(existingIssues.map((i) => [i.id, i]));
-
-                const issueRecords: IssueRecord[] = issues.map((issue) => {
-                  const existing = existingIssuesMap.get(issue.id);
-                  return {
-                    ...issue,
-                    repo_id: repo.id,
-                    last_fetched_at: Date.now(),
-                    // Preserve visit tracking from existing record
-                    visit_count: existing?.visit_count,
-                    last_visited_at: existing?.last_visited_at,
-                    first_visited_at: existing?.first_visited_at,
-                  };
-                });
-                return saveIssues(issueRecords).then(() => {
-                  issuesCount++;
-                  console.warn(`[Import] ✓ ${repo.full_name}: ${issues.length} issues`);
-                  // Update progress after issues saved
-                  updateImportStatus({
-                    progress: {
-                      totalRepos: allRepos.length,
-                      indexedRepos: indexedRepos.length,
-                      nonIndexedRepos: nonIndexedRepos.length,
-                      issuesProgress: issuesCount,
-                      prsProgress: prsCount,
-                      currentRepo: repo.full_name,
-                    },
-                  });
-                  return issues.length;
-                });
-              })
-              .catch((err) => {
-                console.error(`[Import]✗ Failed to fetch issues for ${repo.full_name}:`, err);
-                issuesCount++; // Still increment to keep progress moving
-                return 0;
-              }),
-          );
-        } else {
-          // If not importing issues, increment count to match indexedRepos
-          issuesCount++;
-        }
+  // Save all repos immediately (so UI can show them in settings)
+  await saveRepos(repoRecords);
+  recordChanges(
+    ctx,
+    storedRepoIds,
+    repoRecords.map((repo) => repo.id),
+  );
+  console.warn(`[Import] Saved ${repoRecords.length} repositories to database`);
 
-        // Fetch PRs if enabled
-        if (preferences.importPullRequests) {
-          promises.push(
-            (shouldLimitToMyPRs
-              ? getUserInvolvedPullRequests(owner, repoName, accountLogin!)
-              : getRepoPullRequests(owner, repoName)
-            )
-              .then(async (prs) => {
-                // Get existing PRs to preserve visit tracking
-                const { getPullRequestsByRepo: getExistingPRs } = await import('@/src/storage/db');
-                const existingPRs = await getExistingPRs(repo.id);
-                const existingPRsMap = new Map(existingPRs.map((pr) => [pr.id, pr]));
-
-                const prRecords: PullRequestRecord[] = prs.map((pr) => {
-                  const existing = existingPRsMap.get(pr.id);
-                  return {
-                    ...pr,
-                    merged: pr.merged_at !== null, // Compute merged from merged_at
-                    repo_id: repo.id,
-                    last_fetched_at: Date.now(),
-                    // Preserve visit tracking from existing record
-                    visit_count: existing?.visit_count,
-                    last_visited_at: existing?.last_visited_at,
-                    first_visited_at: existing?.first_visited_at,
-                  };
-                });
-                return savePullRequests(prRecords).then(() => {
-                  prsCount++;
-                  console.warn(`[Import] ✓ ${repo.full_name}: ${prs.length} PRs`);
-                  // Update progress after PRs saved
-                  updateImportStatus({
-                    progress: {
-                      totalRepos: allRepos.length,
-                      indexedRepos: indexedRepos.length,
-                      nonIndexedRepos: nonIndexedRepos.length,
-                      issuesProgress: issuesCount,
-                      prsProgress: prsCount,
-                      currentRepo: repo.full_name,
-                    },
-                  });
-                  return prs.length;
-                });
-              })
-              .catch((err) => {
-                console.error(`[Import]✗ Failed to fetch PRs for ${repo.full_name}:`, err);
-                prsCount++; // Still increment to keep progress moving
-                return 0;
-              }),
-          );
-        } else {
-          // If not importing PRs, increment count to match indexedRepos
-          prsCount++;
-        }
+  // Get repos of interest (candidates for indexing)
+  // Apply org filter HERE - only index repos from enabled orgs
+  const reposOfInterest = repoRecords.filter(
+    (repo) => repo.indexed && isOrgEnabledForIndexing(repo),
+  );
+  console.warn(
+    `[Import] After organization filters: ${reposOfInterest.length} repos to index (${repoRecords.length - reposOfInterest.length} filtered by org settings)`,
+  );
 
-        // Wait for all enabled fetches to complete (they won't throw since we catch errors individually)
-        await Promise.all(promises);
+  // Apply limit: take top MAX_INDEXED_REPOS
+  // Sort by: Personal repos → Own organizations → External organizations
+  // Within each category: manually indexed → contributing → recent activity
+  const indexedRepos = reposOfInterest
+    .sort((a, b) => {
+      // Helper function to get organization category
+      const getOrgCategory = (repo: typeof a): number => {
+        const owner = repo.full_name.split('/')[0];
+        // Personal repos (owner === current user): priority 0
+        // Use case-insensitive comparison since GitHub usernames are case-insensitive
+        if (accountLogin && owner.toLowerCase() === accountLogin.toLowerCase()) return 0;
+        // Starred repos (only reach this point when manually indexed): priority 3
+        if (repo.is_starred) return 3;
+        // Own orgs (NOT fork parents): priority 1
+        if (!repo.is_parent_of_my_fork) return 1;
+        // External orgs (fork parents only): priority 2
+        return 2;
+      };
+
+      const categoryA = getOrgCategory(a);
+      const categoryB = getOrgCategory(b);
+
+      // Sort by category first (personal → own orgs → external orgs → starred)
+      if (categoryA !== categoryB) return categoryA - categoryB;
+
+      // Within same category, apply existing priority logic:
+
+      // Manually indexed first
+      if (a.indexed_manually && !b.indexed_manually) return -1;
+      if (!a.indexed_manually && b.indexed_manually) return 1;
+
+      // Contributing repos second
+      if (a.me_contributing && !b.me_contributing) return -1;
+      if (!a.me_contributing && b.me_contributing) return 1;
+
+      // Then by most recent activity
+      const pushA = a.pushed_at ? new Date(a.pushed_at).getTime() : 0;
+      const pushB = b.pushed_at ? new Date(b.pushed_at).getTime() : 0;
+      return pushB - pushA;
+    })
+    .slice(0, MAX_INDEXED_REPOS);
+
+  // Update indexed flag for repos that made the cut (or were indexed by an earlier account)
+  const finalRepoRecords = repoRecords.map((repo) => ({
+    ...repo,
+    indexed: indexedRepos.includes(repo) || run.indexedRepoKeys.has(repo.key),
+  }));
+  for (const repo of repoRecords) {
+    run.importedRepoKeys.add(repo.key);
+  }
 
-        // Notify that a repo has been fully processed (triggers cache invalidation + UI update)
-        onProgress?.('repo_processed');
-      } catch (err) {
-        // This should rarely be reached now, but keep as safety net
-        console.error(`[Import] ✗ Unexpected error for ${repo.full_name}:`, err);
-        // Ensure counters are incremented so we don't get stuck
-        if (issuesCount < indexedRepos.length) issuesCount++;
-        if (prsCount < indexedRepos.length) prsCount++;
-      }
-    }
+  // Save updated indexed flags
+  await saveRepos(finalRepoRecords);
 
-    // Update organization list from imported repos (including external orgs)
-    await syncOrganizationListFromRepos();
+  // Notify that repos have been saved (triggers cache invalidation + UI update)
+  onProgress?.('repos_saved');
 
-    // Mark import as completed successfully
-    await updateImportStatus({
-      isRunning: false,
-      lastCompletedAt: Date.now(),
-      lastError: null,
-      accountLogin,
-      progress: {
-        totalRepos: allRepos.length,
-        indexedRepos: indexedRepos.length,
-        nonIndexedRepos: nonIndexedRepos.length,
-        issuesProgress: issuesCount,
-        prsProgress: prsCount,
-        currentRepo: null,
-      },
+  const nonIndexedRepos = finalRepoRecords.filter((repo) => !repo.indexed);
+
+  console.warn(
+    `[Import] ✓ Saved ${allRepos.length} repos to DB (${repoRecords.filter((r) => r.me_contributing).length} where you contribute)`,
+  );
+  console.warn(
+    `[Import]✓ Selected ${indexedRepos.length}/${reposOfInterest.length} repos of interest for indexing (limit: ${MAX_INDEXED_REPOS})`,
+  );
+
+  console.warn(
+    `[Import] Indexed repos: ${indexedRepos.length}, Non-indexed repos: ${nonIndexedRepos.length} (skipping import)`,
+  );
+
+  // Repos shared with an earlier account of this run already have their issues/PRs
+  const reposToSync = indexedRepos.filter((repo) => !run.indexedRepoKeys.has(repo.key));
+  for (const repo of indexedRepos) {
+    run.indexedRepoKeys.add(repo.key);
+  }
+
+  const account: AccountCheckpoint = {
+    label: contextLabel(ctx),
+    accountLogin,
+    phase: 'repos',
+    repoQueue: reposToSync.map((repo) => repo.key),
+    reposDone: 0,
+    totalRepos: allRepos.length,
+    nonIndexedRepos: nonIndexedRepos.length,
+  };
+  await saveImportCheckpoint(run, account);
+  return account;
+}
+
+/**
+ * Get a repo's branches, fetching them from GitHub when the cached list is missing or stale
+ * Branches are not part of the import: they are only needed once a repo is opened in focused mode
+ * Falls back to the cached list when the fetch fails
+ */
+export async function getRepoBranchesCached(repoKey: string): Promise<BranchRecord[]> {
+  const cachedBranches = await getBranchesByRepo(repoKey);
+  const fetchedAt = (await getMeta(`${BRANCHES_FETCHED_AT_PREFIX}${repoKey}`)) as
+    number | undefined;
+  if (fetchedAt && Date.now() - fetchedAt < BRANCHES_MAX_AGE_MS) {
+    return cachedBranches;
+  }
+
+  const repo = await getRepo(repoKey);
+  if (!repo) {
+    return cachedBranches;
+  }
+
+  try {
+    const [owner, repoName] = repo.full_name.split('/');
+    const ctx = await getRepoRequestContext(repo);
+    const branches = await fetchRepoBranches(owner, repoName, BRANCHES_LIMIT, {
+      ...ctx,
+      priority: 'high', // The user is waiting for them in the palette
     });
 
-    console.warn(
-      `[Import]✓ Import completed: ${indexedRepos.length} indexed repos, ${nonIndexedRepos.length} non-indexed (skipped)`,
+    const branchRecords: BranchRecord[] = branches.map((branch) => ({
+      ...branch,
+      key: `${repoKey}/${branch.name}`,
+      repo_key: repoKey,
+      last_fetched_at: Date.now(),
+    }));
+    const fetchedKeys = new Set(branchRecords.map((branch) => branch.key));
+    await saveBranches(branchRecords);
+    await deleteBranches(
+      cachedBranches.filter((branch) => !fetchedKeys.has(branch.key)).map((b) => b.key),
     );
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error('[Import] ✗ Import failed:', errorMessage);
+    await setMeta(`${BRANCHES_FETCHED_AT_PREFIX}${repoKey}`, Date.now());
+    return branchRecords;
+  } catch (err) {
+    console.error(`[Import] ✗ Failed to fetch branches for ${repo.full_name}:`, err);
+    return cachedBranches;
+  }
+}
 
-    // Mark import as failed
-    await updateImportStatus({
-      isRunning: false,
-      lastError: errorMessage,
-    });
+/**
+ * Get the file listing of a repo's default branch for the palette's file finder
+ * Listings are cached per commit SHA, so only the (cheap) branch head lookup hits GitHub until
+ * someone pushes. Falls back to the newest cached listing when GitHub can't be reached.
+ */
+export async function getRepoFileTree(repoKey: string): Promise<FileTreeRecord | null> {
+  const repo = await getRepo(repoKey);
+  if (!repo) {
+    return null;
+  }
 
-    throw error;
+  const cachedTrees = await getFileTreesByRepo(repoKey);
+  try {
+    const [owner, repoName] = repo.full_name.split('/');
+    const ctx = {
+      ...(await getRepoRequestContext(repo)),
+      priority: 'high' as const, // The user is waiting for it in the palette
+    };
+    const sha = await fetchBranchHeadSha(owner, repoName, repo.default_branch, ctx);
+
+    const cachedTree = await getFileTree(`${repoKey}@${sha}`);
+    if (cachedTree) {
+      return cachedTree;
+    }
+
+    const tree = await fetchRepoTree(owner, repoName, sha, ctx);
+    const fileTree: FileTreeRecord = {
+      key: `${repoKey}@${sha}`,
+      sha,
+      repo_key: repoKey,
+      paths: tree.tree.filter((entry) => entry.type === 'blob').map((entry) => entry.path),
+      truncated: tree.truncated,
+      fetched_at: Date.now(),
+    };
+    await saveFileTree(fileTree);
+    // Listings of older commits are never looked up again
+    await deleteFileTrees(cachedTrees.map((cached) => cached.key));
+    return fileTree;
+  } catch (err) {
+    console.error(`[Import] ✗ Failed to fetch file tree for ${repo.full_name}:`, err);
+    return cachedTrees.sort((a, b) => b.fetched_at - a.fetched_at)[0] ?? null;
   }
 }
 
 /**
  * Force an import even if one recently completed
  */
-export async function forceImport(onProgress?: ImportProgressCallback): Promise<void> {
+export async function forceImport(
+  onProgress?: ImportProgressCallback,
+  signal?: AbortSignal,
+  trigger: SyncRunTrigger = 'manual',
+): Promise<void> {
   console.warn('[Import] Force import requested');
 
-  // Reset the import state completely to allow immediate import
+  // Reset the import state completely to allow immediate import (starting over, not resuming)
+  await setMeta(IMPORT_CHECKPOINT_KEY, null);
   await updateImportStatus({
     isRunning: false,
     lastCompletedAt: null,
     lastError: null,
   });
 
-  return runImport(onProgress);
+  return runImport(onProgress, signal, trigger);
 }
 
 /**
@@ -638,19 +1983,25 @@ export async function forceImport(onProgress?: ImportProgressCallback): Promise<
 export async function forceSyncSingleRepo(
   repoFullName: string,
   onProgress?: ImportProgressCallback,
+  host?: string,
+  signal?: AbortSignal,
 ): Promise<void> {
   console.warn(`[Import] Force sync single repo: ${repoFullName}`);
 
   // Look up repo by name
-  const repo = await getRepoByName(repoFullName);
+  const repo = await getRepoByName(repoFullName, host);
   if (!repo) {
     console.error(`[Import] Repo not found: ${repoFullName}`);
     throw new Error(`Repo not found: ${repoFullName}`);
   }
+  const startedAt = Date.now();
+  const stats = createSyncRunStats();
+  stats.repos.add(repo.full_name);
+  const ctx = { ...(await getRepoRequestContext(repo)), signal, stats };
 
   // Get preferences and user info
   const preferences = await getImportPreferences();
-  const user = await getAuthenticatedUser();
+  const user = await getAuthenticatedUser(ctx);
   const accountLogin = user.login || null;
 
   // Update status to show single-repo sync
@@ -664,7 +2015,7 @@ export async function forceSyncSingleRepo(
       nonIndexedRepos: 0,
       issuesProgress: 0,
       prsProgress: 0,
-      currentRepo: repoFullName,
+      reposInFlight: [repoFullName],
     },
   });
 
@@ -673,32 +2024,14 @@ export async function forceSyncSingleRepo(
   }
 
   try {
-    const [owner, repoName] = repoFullName.split('/');
-    const shouldLimitToMyPRs = !!(repo.prs_only_my_involvement && accountLogin);
-
-    // Fetch issues if enabled
-    if (preferences.importIssues) {
-      try {
-        const issues = await getRepoIssues(owner, repoName, 'all');
-
-        // Get existing issues to preserve visit tracking
-        const existingIssues = await getIssuesByRepo(repo.id);
-        const existingIssuesMap = new Map(existingIssues.map((i) => [i.id, i]));
-
-        const issueRecords: IssueRecord[] = issues.map((issue) => {
-          const existing = existingIssuesMap.get(issue.id);
-          return {
-            ...issue,
-            repo_id: repo.id,
-            last_fetched_at: Date.now(),
-            visit_count: existing?.visit_count,
-            last_visited_at: existing?.last_visited_at,
-            first_visited_at: existing?.first_visited_at,
-          };
-        });
+    const [owner, repoName] = repoFullName.split('/');
+    const shouldLimitToMyPRs = !!(repo.prs_only_my_involvement && accountLogin);
 
-        await saveIssues(issueRecords);
-        console.warn(`[Import] ✓ ${repoFullName}: ${issues.length} issues`);
+    // Fetch issues if enabled
+    if (preferences.importIssues) {
+      try {
+        // A forced resync also reconciles everything, not just recent changes
+        await syncRepoIssues(repo, accountLogin, ctx, 'full');
 
         await updateImportStatus({
           progress: {
@@ -707,7 +2040,7 @@ export async function forceSyncSingleRepo(
             nonIndexedRepos: 0,
             issuesProgress: 1,
             prsProgress: 0,
-            currentRepo: repoFullName,
+            reposInFlight: [repoFullName],
           },
         });
 
@@ -716,6 +2049,7 @@ export async function forceSyncSingleRepo(
         }
       } catch (err) {
         console.error(`[Import] ✗ Failed to fetch issues for ${repoFullName}:`, err);
+        recordRepoError(ctx, repo.full_name, 'issues', err);
       }
     }
 
@@ -723,19 +2057,21 @@ export async function forceSyncSingleRepo(
     if (preferences.importPullRequests) {
       try {
         const prs = shouldLimitToMyPRs
-          ? await getUserInvolvedPullRequests(owner, repoName, accountLogin!)
-          : await getRepoPullRequests(owner, repoName);
+          ? await fetchUserInvolvedPullRequests(owner, repoName, accountLogin!, ctx)
+          : await fetchRepoPullRequests(owner, repoName, ctx);
 
         // Get existing PRs to preserve visit tracking
-        const existingPRs = await getPullRequestsByRepo(repo.id);
+        const existingPRs = await getPullRequestsByRepo(repo.key);
         const existingPRsMap = new Map(existingPRs.map((pr) => [pr.id, pr]));
 
         const prRecords: PullRequestRecord[] = prs.map((pr) => {
           const existing = existingPRsMap.get(pr.id);
           return {
             ...pr,
+            key: recordKey(repo.host, pr.id),
             merged: pr.merged_at !== null,
-            repo_id: repo.id,
+            repo_key: repo.key,
+            account: accountLogin ?? undefined,
             last_fetched_at: Date.now(),
             visit_count: existing?.visit_count,
             last_visited_at: existing?.last_visited_at,
@@ -744,6 +2080,11 @@ export async function forceSyncSingleRepo(
         });
 
         await savePullRequests(prRecords);
+        recordChanges(
+          ctx,
+          existingPRsMap,
+          prs.map((pr) => pr.id),
+        );
         console.warn(`[Import] ✓ ${repoFullName}: ${prs.length} PRs`);
 
         await updateImportStatus({
@@ -753,7 +2094,7 @@ export async function forceSyncSingleRepo(
             nonIndexedRepos: 0,
             issuesProgress: preferences.importIssues ? 1 : 0,
             prsProgress: 1,
-            currentRepo: repoFullName,
+            reposInFlight: [repoFullName],
           },
         });
 
@@ -762,9 +2103,67 @@ export async function forceSyncSingleRepo(
         }
       } catch (err) {
         console.error(`[Import] ✗ Failed to fetch PRs for ${repoFullName}:`, err);
+        recordRepoError(ctx, repo.full_name, 'PRs', err);
+      }
+    }
+
+    // Fetch discussions if enabled
+    if (preferences.importDiscussions) {
+      try {
+        await syncRepoDiscussions(repo, accountLogin, ctx);
+        onProgress?.('repo_processed');
+      } catch (err) {
+        console.error(`[Import] ✗ Failed to fetch discussions for ${repoFullName}:`, err);
+        recordRepoError(ctx, repo.full_name, 'discussions', err);
+      }
+    }
+
+    // Fetch releases if enabled
+    if (preferences.importReleases) {
+      try {
+        await syncRepoReleases(repo, accountLogin, preferences.importTags, ctx);
+        onProgress?.('repo_processed');
+      } catch (err) {
+        console.error(`[Import] ✗ Failed to fetch releases for ${repoFullName}:`, err);
+        recordRepoError(ctx, repo.full_name, 'releases', err);
+      }
+    }
+
+    // Fetch milestones if enabled
+    if (preferences.importMilestones) {
+      try {
+        await syncRepoMilestones(repo, accountLogin, ctx);
+        onProgress?.('repo_processed');
+      } catch (err) {
+        console.error(`[Import] ✗ Failed to fetch milestones for ${repoFullName}:`, err);
+        recordRepoError(ctx, repo.full_name, 'milestones', err);
+      }
+    }
+
+    // Fetch workflow runs if enabled
+    if (preferences.importWorkflowRuns) {
+      try {
+        await syncRepoWorkflowRuns(repo, accountLogin, ctx);
+        onProgress?.('repo_processed');
+      } catch (err) {
+        console.error(`[Import] ✗ Failed to fetch workflow runs for ${repoFullName}:`, err);
+        recordRepoError(ctx, repo.full_name, 'workflow runs', err);
+      }
+    }
+
+    // Index bodies (and comments) for full-text search if enabled
+    if (preferences.importBodies) {
+      try {
+        await syncRepoFullText(repo, preferences.importComments, ctx);
+      } catch (err) {
+        console.error(`[Import] ✗ Failed to index text of ${repoFullName}:`, err);
+        recordRepoError(ctx, repo.full_name, 'full-text', err);
       }
     }
 
+    // Every step above swallows its errors: a cancelled sync must not be marked complete
+    signal?.throwIfAborted();
+
     // Mark complete
     await updateImportStatus({
       isRunning: false,
@@ -773,7 +2172,19 @@ export async function forceSyncSingleRepo(
     });
 
     console.warn(`[Import] Single repo sync completed: ${repoFullName}`);
+    await recordSyncRun('single_repo', 'manual', startedAt, stats);
   } catch (error) {
+    await recordSyncRun('single_repo', 'manual', startedAt, stats, { error });
+
+    if (isAbortError(error)) {
+      console.warn(`[Import] Single repo sync cancelled: ${repoFullName}`);
+      await updateImportStatus({
+        isRunning: false,
+        lastError: IMPORT_CANCELLED_MESSAGE,
+      });
+      return;
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`[Import] Single repo sync failed for ${repoFullName}:`, error);
 
@@ -834,6 +2245,16 @@ async function syncOrganizationListFromRepos(): Promise<void> {
     }
   }
 
+  // Add new "starred" orgs as enabled (orgs with only starred repos): their repos are only
+  // indexed once added manually, so enabling them just keeps those repos in search results
+  for (const org of orgs.starredOrgs) {
+    if (!(org in currentFilters.enabledOrgs)) {
+      currentFilters.enabledOrgs[org] = true; // Enable by default
+      hasNewOrgs = true;
+      console.warn(`[Import] Discovered new starred organization: ${org} (enabled by default)`);
+    }
+  }
+
   // Save updated preferences if new orgs were found
   if (hasNewOrgs) {
     await saveOrgFilterPreferences(currentFilters);
@@ -847,6 +2268,7 @@ async function syncOrganizationListFromRepos(): Promise<void> {
 export async function resetImport(): Promise<void> {
   console.warn('[Import] Manual import reset requested');
 
+  await setMeta(IMPORT_CHECKPOINT_KEY, null);
   await updateImportStatus({
     isRunning: false,
     lastError: 'Manually reset by user',
@@ -856,7 +2278,7 @@ export async function resetImport(): Promise<void> {
       nonIndexedRepos: 0,
       issuesProgress: 0,
       prsProgress: 0,
-      currentRepo: null,
+      reposInFlight: [],
     },
   });
 }
@@ -866,223 +2288,686 @@ export async function resetImport(): Promise<void> {
  * Lightweight polling function that checks top 20 repos for updates
  *
  * Two modes:
- * - IDLE: 30-second delay (when user is not actively using the extension)
- * - BROWSING: 10-second delay (when command palette is open)
+ * - IDLE: every 30 seconds, driven by an alarm (when user is not actively using the extension)
+ * - BROWSING: every 10 seconds, on a timer (when command palette is open)
  */
-let quickCheckTimeoutId: ReturnType<typeof setTimeout> | null = null;
-const QUICK_CHECK_DELAY_IDLE_MS = 30 * 1000; // 30 seconds in idle mode
+let browsingTimeoutId: ReturnType<typeof setTimeout> | null = null;
+let nextBrowsingCheckAt: number | null = null;
+let quickCheckRunning = false;
 const QUICK_CHECK_DELAY_BROWSING_MS = 10 * 1000; // 10 seconds when browsing
+const QUICK_CHECK_BROWSING_MAX_MS = 10 * 60 * 1000; // Palette closed without telling us (tab gone)
+const QUICK_CHECK_BROWSING_UNTIL_KEY = 'quick_check_browsing_until';
 const QUICK_CHECK_REPO_LIMIT = 20; // Check top 20 most recently pushed repos
 const QUICK_CHECK_PR_LIMIT = 10; // Check top 10 most recently updated PRs per repo
+const QUICK_CHECK_ISSUE_REPOS_LIMIT = 10; // Other indexed repos polled for issue changes per check
+const QUICK_CHECK_ISSUE_TURN_PREFIX = 'quick_check_issue_turn:'; // + account label: last repo polled
+const NOTIFICATIONS_LIMIT = 100; // Most recently updated unread threads kept per account
+const NOTIFICATIONS_POLL_AFTER_PREFIX = 'notifications_poll_after:'; // + account label
+const NOTIFICATIONS_DEFAULT_POLL_INTERVAL_S = 60; // When GitHub sends no X-Poll-Interval
 
-type QuickCheckMode = 'idle' | 'browsing';
+type QuickCheckMode = SyncSchedule['quickCheckMode'];
 let currentQuickCheckMode: QuickCheckMode = 'idle';
 
-function getQuickCheckDelay(): number {
-  return currentQuickCheckMode === 'browsing'
-    ? QUICK_CHECK_DELAY_BROWSING_MS
-    : QUICK_CHECK_DELAY_IDLE_MS;
-}
+/**
+ * Run a single quick-check
+ * Skipped while the previous one is still going (a slow check can outlast the cadence).
+ * @param trigger What started the check (recorded in the sync history)
+ */
+async function runQuickCheckOnce(trigger: SyncRunTrigger): Promise<void> {
+  if (quickCheckRunning) {
+    console.warn('[QuickCheck] Previous check still running, skipping...');
+    return;
+  }
+  quickCheckRunning = true;
 
-async function runQuickCheckOnce(): Promise<void> {
   const startTime = new Date();
   console.warn(
     `[QuickCheck] Starting check at ${startTime.toLocaleTimeString()} (mode: ${currentQuickCheckMode})`,
   );
 
   try {
-    // Check if token exists before attempting any API calls
-    const { getGitHubToken } = await import('@/src/storage/chrome');
-    const token = await getGitHubToken();
+    // Check if any token exists before attempting any API calls
+    const contexts = await getImportContexts();
 
-    if (!token) {
+    if (contexts.length === 0) {
       console.warn('[QuickCheck] Skipped - no GitHub token configured yet');
       return;
     }
 
     const preferences = await getImportPreferences();
-    const status = await getImportStatus();
-    const accountLogin = status.accountLogin || undefined;
 
-    // Skip if PRs import is disabled (we only check PRs in quick-check now)
-    if (!preferences.importPullRequests) {
-      console.warn('[QuickCheck] Skipped - PR import disabled in preferences');
+    // Skip if issue, PR, workflow run and notification import are all disabled (the only things
+    // quick-check refreshes)
+    if (
+      !preferences.importIssues &&
+      !preferences.importPullRequests &&
+      !preferences.importWorkflowRuns &&
+      !preferences.importNotifications
+    ) {
+      console.warn(
+        '[QuickCheck] Skipped - issue, PR, workflow run and notification import disabled in preferences',
+      );
       return;
     }
 
-    // Fetch top N recently pushed repos
-    const recentRepos = await getRecentlyPushedRepos(QUICK_CHECK_REPO_LIMIT);
+    const stats = createSyncRunStats();
+    let accountError: unknown;
+    for (const ctx of contexts) {
+      try {
+        // Quick-check goes ahead of a running full import and may use the reserved budget
+        await quickCheckAccount({ ...ctx, priority: 'high', stats }, preferences);
+      } catch (error) {
+        console.error(`[QuickCheck] Error checking ${contextLabel(ctx)}:`, error);
+        accountError ??= error;
+      }
+    }
+
+    const endTime = new Date();
+    const durationMs = endTime.getTime() - startTime.getTime();
+    console.warn(
+      `[QuickCheck] Completed at ${endTime.toLocaleTimeString()} (took ${durationMs}ms)`,
+    );
+    await recordSyncRun('quick_check', trigger, startTime.getTime(), stats, {
+      error: accountError,
+    });
+  } catch (error) {
+    console.error('[QuickCheck] Error during quick check:', error);
+  } finally {
+    quickCheckRunning = false;
+  }
+}
+
+/**
+ * Quick-check a single account: refresh its notifications, then changed issues, PRs and workflow
+ * runs of recently pushed indexed repos, and changed issues of its other indexed repos
+ */
+async function quickCheckAccount(
+  ctx: GitHubRequestContext,
+  preferences: ImportPreferences,
+): Promise<void> {
+  // Conditional requests make this a free 304 most of the time
+  const user = await getAuthenticatedUser(ctx);
+  const accountLogin: string | undefined = user.login || undefined;
+
+  if (preferences.importNotifications) {
+    try {
+      await quickCheckNotifications(accountLogin ?? null, ctx);
+    } catch (err) {
+      console.error(`[QuickCheck] ✗ Failed to refresh notifications (${contextLabel(ctx)}):`, err);
+    }
+  }
+
+  if (
+    !preferences.importIssues &&
+    !preferences.importPullRequests &&
+    !preferences.importWorkflowRuns
+  ) {
+    return;
+  }
 
-    // Apply organization filters
-    const orgFilters = await getOrgFilterPreferences();
-    const hasFilters = Object.keys(orgFilters.enabledOrgs).length > 0;
-    const filteredRecentRepos = recentRepos.filter((repo) => {
-      const owner = repo.full_name.split('/')[0];
+  // Fetch top N recently pushed repos
+  const recentRepos = await getRecentlyPushedRepos(QUICK_CHECK_REPO_LIMIT, ctx);
 
-      // If no filters set yet, include everything
-      if (!hasFilters) {
-        return true;
-      }
+  // Apply organization filters
+  const orgFilters = await getOrgFilterPreferences();
+  const hasFilters = Object.keys(orgFilters.enabledOrgs).length > 0;
+  const filteredRecentRepos = recentRepos.filter((repo) => {
+    const owner = repo.full_name.split('/')[0];
 
-      // If org is in the filter list, respect the setting
-      if (owner in orgFilters.enabledOrgs) {
-        return orgFilters.enabledOrgs[owner] === true;
-      }
+    // If no filters set yet, include everything
+    if (!hasFilters) {
+      return true;
+    }
 
-      // If org is not in filter list but filters exist, exclude
-      return false;
-    });
+    // If org is in the filter list, respect the setting
+    if (owner in orgFilters.enabledOrgs) {
+      return orgFilters.enabledOrgs[owner] === true;
+    }
 
-    // Check each repo's PRs for updates
-    for (const apiRepo of filteredRecentRepos) {
-      const storedRepo = await getRepo(apiRepo.id);
+    // If org is not in filter list but filters exist, exclude
+    return false;
+  });
 
-      // Skip if repo doesn't exist in our DB yet (will be picked up by full import)
-      if (!storedRepo) {
-        continue;
-      }
+  // Check each repo's issues, PRs and workflow runs for updates
+  const checkedRepoKeys = new Set<string>();
+  for (const apiRepo of filteredRecentRepos) {
+    const storedRepo = await getRepo(recordKey(ctx.host, apiRepo.id));
 
-      // Skip if repo is not indexed
-      if (!storedRepo.indexed) {
-        continue;
-      }
+    // Skip if repo doesn't exist in our DB yet (will be picked up by full import)
+    if (!storedRepo) {
+      continue;
+    }
+
+    // Skip if repo is not indexed
+    if (!storedRepo.indexed) {
+      continue;
+    }
 
-      const parts = apiRepo.full_name.split('/');
-      if (parts.length < 2) {
-        console.error(`[QuickCheck] Invalid repo full_name: ${apiRepo.full_name}`);
-        continue;
+    if (apiRepo.full_name.split('/').length < 2) {
+      console.error(`[QuickCheck] Invalid repo full_name: ${apiRepo.full_name}`);
+      continue;
+    }
+
+    ctx.stats?.repos.add(apiRepo.full_name);
+    checkedRepoKeys.add(storedRepo.key);
+
+    if (preferences.importIssues) {
+      try {
+        await syncRepoIssues(storedRepo, accountLogin ?? null, ctx, 'changes');
+      } catch (err) {
+        console.error(`[QuickCheck] ✗ Failed to refresh issues for ${apiRepo.full_name}:`, err);
+        recordRepoError(ctx, apiRepo.full_name, 'issues', err);
       }
-      const [owner, repoName] = parts;
+    }
+
+    if (preferences.importPullRequests) {
+      await quickCheckPullRequests(apiRepo, storedRepo, accountLogin, ctx);
+      await quickCheckPendingChecks(storedRepo, ctx);
+    }
+
+    if (preferences.importWorkflowRuns) {
+      await quickCheckWorkflowRuns(apiRepo, storedRepo, accountLogin ?? null, ctx);
+    }
+  }
+
+  if (preferences.importIssues) {
+    await quickCheckIssues(accountLogin ?? null, ctx, checkedRepoKeys);
+  }
+}
+
+/**
+ * Poll changed issues of the account's indexed repos not checked yet: issues change without a
+ * push (comments, labels, state), so recently pushed repos alone would miss them.
+ * Repos take turns, QUICK_CHECK_ISSUE_REPOS_LIMIT per check, to keep each check light.
+ * Repos without an issue cursor are left to the full import; unchanged ones cost a free 304.
+ */
+async function quickCheckIssues(
+  accountLogin: string | null,
+  ctx: GitHubRequestContext,
+  checkedRepoKeys: Set<string>,
+): Promise<void> {
+  const host = ctx.host ?? DEFAULT_WEB_HOST;
+  const repos = (await getAllRepos())
+    .filter(
+      (repo) =>
+        repo.indexed && !checkedRepoKeys.has(repo.key) && (repo.host ?? DEFAULT_WEB_HOST) === host,
+    )
+    .sort((a, b) => (a.key < b.key ? -1 : 1));
+
+  // Carry on after the repo the previous check polled last, wrapping around
+  const turnKey = `${QUICK_CHECK_ISSUE_TURN_PREFIX}${contextLabel(ctx)}`;
+  const lastPolledKey = (await getMeta(turnKey)) as string | null;
+  const start = lastPolledKey ? repos.findIndex((repo) => repo.key > lastPolledKey) : 0;
+  const inTurn = start > 0 ? [...repos.slice(start), ...repos.slice(0, start)] : repos;
+
+  let polledKey: string | null = null;
+  let polled = 0;
+  for (const repo of inTurn) {
+    if (polled >= QUICK_CHECK_ISSUE_REPOS_LIMIT) {
+      break;
+    }
+
+    // Each repo is polled once, by the account its issues are synced with
+    const repoCtx = await getRepoRequestContext(repo);
+    if (repoCtx.account !== ctx.account) {
+      continue;
+    }
+    polled++;
+    polledKey = repo.key;
+
+    try {
+      const { fetched } = await syncRepoIssues(repo, accountLogin, ctx, 'changes');
+      if (fetched > 0) ctx.stats?.repos.add(repo.full_name);
+    } catch (err) {
+      console.error(`[QuickCheck] ✗ Failed to refresh issues for ${repo.full_name}:`, err);
+      recordRepoError(ctx, repo.full_name, 'issues', err);
+    }
+  }
+
+  if (polledKey) {
+    await setMeta(turnKey, polledKey);
+  }
+}
+
+/**
+ * Re-import a repo's PRs when any of its recently updated PRs changed since the last fetch
+ */
+async function quickCheckPullRequests(
+  apiRepo: GitHubRepo,
+  storedRepo: RepoRecord,
+  accountLogin: string | undefined,
+  ctx: GitHubRequestContext,
+): Promise<void> {
+  const [owner, repoName] = apiRepo.full_name.split('/');
+  const shouldLimitToMyPRs = storedRepo.prs_only_my_involvement && accountLogin;
+
+  // Fetch recently updated PRs for this repo (only mine for fork parents)
+  const recentPRs = shouldLimitToMyPRs
+    ? await fetchUserInvolvedPullRequests(owner, repoName, accountLogin!, ctx)
+    : await getRecentlyUpdatedPRs(owner, repoName, QUICK_CHECK_PR_LIMIT, ctx);
+
+  // Check if any PR has been updated since our last fetch
+  const storedFetchedAt = storedRepo.last_fetched_at || 0;
+
+  const updatedPRs = recentPRs.filter((pr) => {
+    const prUpdatedAt = pr.updated_at ? new Date(pr.updated_at).getTime() : 0;
+    return prUpdatedAt > storedFetchedAt;
+  });
 
-      const shouldLimitToMyPRs = storedRepo.prs_only_my_involvement && accountLogin;
+  if (updatedPRs.length > 0) {
+    // Log which PRs triggered the update
+    for (const pr of updatedPRs) {
+      console.warn(
+        `[QuickCheck] 🔄 PR needs update: ${apiRepo.full_name}#${pr.number} "${pr.title}" (updated: ${pr.updated_at})`,
+      );
+    }
+    console.warn(
+      `[QuickCheck] Detected ${updatedPRs.length} updated PR(s) in ${apiRepo.full_name}, re-importing...`,
+    );
+
+    // Update repo record (preserve visit tracking)
+    await saveRepos([
+      {
+        ...apiRepo,
+        key: storedRepo.key,
+        host: storedRepo.host,
+        accounts: storedRepo.accounts,
+        last_fetched_at: Date.now(),
+        me_contributing: storedRepo.me_contributing,
+        last_contributed_at: storedRepo.last_contributed_at,
+        indexed_manually: storedRepo.indexed_manually,
+        indexed: storedRepo.indexed,
+        is_parent_of_my_fork: storedRepo.is_parent_of_my_fork,
+        prs_only_my_involvement: storedRepo.prs_only_my_involvement,
+        is_starred: storedRepo.is_starred,
+        // Preserve visit tracking
+        visit_count: storedRepo.visit_count,
+        last_visited_at: storedRepo.last_visited_at,
+        first_visited_at: storedRepo.first_visited_at,
+      },
+    ]);
 
-      // Fetch recently updated PRs for this repo (only mine for fork parents)
-      const recentPRs = shouldLimitToMyPRs
-        ? await getUserInvolvedPullRequests(owner, repoName, accountLogin!)
-        : await getRecentlyUpdatedPRs(owner, repoName, QUICK_CHECK_PR_LIMIT);
+    // Re-import all PRs for this repo
+    try {
+      const allPRs = shouldLimitToMyPRs
+        ? recentPRs
+        : await fetchRepoPullRequests(owner, repoName, ctx);
 
-      // Check if any PR has been updated since our last fetch
-      const storedFetchedAt = storedRepo.last_fetched_at || 0;
+      // Get existing PRs to preserve visit tracking
+      const { getPullRequestsByRepo: getExistingPRs } = await import('@/src/storage/db');
+      const existingPRs = await getExistingPRs(storedRepo.key);
+      const existingPRsMap = new Map(existingPRs.map((pr) => [pr.id, pr]));
 
-      const updatedPRs = recentPRs.filter((pr) => {
-        const prUpdatedAt = pr.updated_at ? new Date(pr.updated_at).getTime() : 0;
-        return prUpdatedAt > storedFetchedAt;
+      const prRecords: PullRequestRecord[] = allPRs.map((pr) => {
+        const existing = existingPRsMap.get(pr.id);
+        return {
+          ...pr,
+          key: recordKey(storedRepo.host, pr.id),
+          merged: pr.merged_at !== null, // Compute merged from merged_at
+          repo_key: storedRepo.key,
+          account: accountLogin,
+          last_fetched_at: Date.now(),
+          // Preserve visit tracking from existing record
+          visit_count: existing?.visit_count,
+          last_visited_at: existing?.last_visited_at,
+          first_visited_at: existing?.first_visited_at,
+        };
       });
+      await savePullRequests(prRecords);
+      recordChanges(
+        ctx,
+        existingPRsMap,
+        allPRs.map((pr) => pr.id),
+      );
+      console.warn(`[QuickCheck] ✓ Re-imported ${allPRs.length} PRs for ${apiRepo.full_name}`);
+    } catch (err) {
+      console.error(`[QuickCheck] ✗ Failed to re-import PRs for ${apiRepo.full_name}:`, err);
+      recordRepoError(ctx, apiRepo.full_name, 'PRs', err);
+    }
+  }
+}
 
-      if (updatedPRs.length > 0) {
-        // Log which PRs triggered the update
-        for (const pr of updatedPRs) {
-          console.warn(
-            `[QuickCheck] 🔄 PR needs update: ${apiRepo.full_name}#${pr.number} "${pr.title}" (updated: ${pr.updated_at})`,
-          );
-        }
-        console.warn(
-          `[QuickCheck] Detected ${updatedPRs.length} updated PR(s) in ${apiRepo.full_name}, re-importing...`,
-        );
+/**
+ * Refresh the CI state of open PRs whose checks were still running
+ * CI finishing doesn't bump a PR's updated_at, so quickCheckPullRequests wouldn't notice
+ */
+async function quickCheckPendingChecks(repo: RepoRecord, ctx: GitHubRequestContext): Promise<void> {
+  const [owner, repoName] = repo.full_name.split('/');
+  const pendingPRs = (await getPullRequestsByRepo(repo.key)).filter(
+    (pr) => pr.state === 'open' && pr.checks_state === 'pending',
+  );
 
-        // Update repo record (preserve visit tracking)
-        await saveRepos([
-          {
-            ...apiRepo,
-            last_fetched_at: Date.now(),
-            me_contributing: storedRepo.me_contributing,
-            last_contributed_at: storedRepo.last_contributed_at,
-            indexed_manually: storedRepo.indexed_manually,
-            indexed: storedRepo.indexed,
-            is_parent_of_my_fork: storedRepo.is_parent_of_my_fork,
-            prs_only_my_involvement: storedRepo.prs_only_my_involvement,
-            // Preserve visit tracking
-            visit_count: storedRepo.visit_count,
-            last_visited_at: storedRepo.last_visited_at,
-            first_visited_at: storedRepo.first_visited_at,
-          },
-        ]);
-
-        // Re-import all PRs for this repo
-        try {
-          const allPRs = shouldLimitToMyPRs
-            ? recentPRs
-            : await getRepoPullRequests(owner, repoName);
-
-          // Get existing PRs to preserve visit tracking
-          const { getPullRequestsByRepo: getExistingPRs } = await import('@/src/storage/db');
-          const existingPRs = await getExistingPRs(apiRepo.id);
-          const existingPRsMap = new Map(existingPRs.map((pr) => [pr.id, pr]));
-
-          const prRecords: PullRequestRecord[] = allPRs.map((pr) => {
-            const existing = existingPRsMap.get(pr.id);
-            return {
-              ...pr,
-              merged: pr.merged_at !== null, // Compute merged from merged_at
-              repo_id: apiRepo.id,
-              last_fetched_at: Date.now(),
-              // Preserve visit tracking from existing record
-              visit_count: existing?.visit_count,
-              last_visited_at: existing?.last_visited_at,
-              first_visited_at: existing?.first_visited_at,
-            };
-          });
-          await savePullRequests(prRecords);
-          console.warn(`[QuickCheck] ✓ Re-imported ${allPRs.length} PRs for ${apiRepo.full_name}`);
-        } catch (err) {
-          console.error(`[QuickCheck] ✗ Failed to re-import PRs for ${apiRepo.full_name}:`, err);
-        }
+  const changedPRs: PullRequestRecord[] = [];
+  for (const pr of pendingPRs) {
+    try {
+      const checksState = await fetchPullRequestChecksState(owner, repoName, pr.head.sha, ctx);
+      if (checksState !== pr.checks_state) {
+        changedPRs.push({ ...pr, checks_state: checksState });
       }
+    } catch (err) {
+      console.error(
+        `[QuickCheck] ✗ Failed to refresh checks for ${repo.full_name}#${pr.number}:`,
+        err,
+      );
+      recordRepoError(ctx, repo.full_name, `checks of #${pr.number}`, err);
     }
+  }
 
-    const endTime = new Date();
-    const durationMs = endTime.getTime() - startTime.getTime();
+  if (changedPRs.length > 0) {
+    await savePullRequests(changedPRs);
+    recordChanges(
+      ctx,
+      new Set(pendingPRs.map((pr) => pr.id)),
+      changedPRs.map((pr) => pr.id),
+    );
     console.warn(
-      `[QuickCheck] Completed at ${endTime.toLocaleTimeString()} (took ${durationMs}ms)`,
+      `[QuickCheck] ✓ Updated checks of ${changedPRs.length} PR(s) in ${repo.full_name}`,
     );
-  } catch (error) {
-    console.error('[QuickCheck] Error during quick check:', error);
   }
 }
 
 /**
- * Schedule the next quick-check iteration
+ * Refresh a repo's workflow runs after a push, or while any stored run is still queued or running
  */
-function scheduleNextQuickCheck(): void {
-  const delay = getQuickCheckDelay();
-  quickCheckTimeoutId = setTimeout(() => {
-    runQuickCheckOnce()
-      .catch((err) => {
-        console.error('[QuickCheck] Unexpected error in loop:', err);
-      })
-      .finally(() => {
-        scheduleNextQuickCheck();
-      });
-  }, delay);
+async function quickCheckWorkflowRuns(
+  apiRepo: GitHubRepo,
+  storedRepo: RepoRecord,
+  accountLogin: string | null,
+  ctx: GitHubRequestContext,
+): Promise<void> {
+  const storedRuns = await getWorkflowRunsByRepo(storedRepo.key);
+  const lastFetchedAt = Math.max(0, ...storedRuns.map((run) => run.last_fetched_at));
+  const pushedAt = apiRepo.pushed_at ? new Date(apiRepo.pushed_at).getTime() : 0;
+  const hasPendingRuns = storedRuns.some((run) => run.status !== 'completed');
+
+  if (pushedAt <= lastFetchedAt && !hasPendingRuns) {
+    return;
+  }
+
+  try {
+    await syncRepoWorkflowRuns(storedRepo, accountLogin, ctx);
+  } catch (err) {
+    console.error(`[QuickCheck] ✗ Failed to refresh workflow runs for ${apiRepo.full_name}:`, err);
+    recordRepoError(ctx, apiRepo.full_name, 'workflow runs', err);
+  }
 }
 
 /**
- * Start the continuous quick-check polling loop
- * Runs check, waits for delay, then runs again (self-scheduling)
+ * Refresh an account's unread notification threads, no more often than GitHub's X-Poll-Interval
+ * allows. Threads that are no longer unread are dropped; the others are linked to their PR/issue
+ * records when those are indexed.
  */
-export function startQuickCheckLoop(): void {
-  // Clear any existing timeout
-  if (quickCheckTimeoutId) {
-    clearTimeout(quickCheckTimeoutId);
+async function quickCheckNotifications(
+  accountLogin: string | null,
+  ctx: GitHubRequestContext,
+): Promise<void> {
+  const pollKey = `${NOTIFICATIONS_POLL_AFTER_PREFIX}${contextLabel(ctx)}`;
+  const pollAfter = (await getMeta(pollKey)) as number | undefined;
+  if (pollAfter && Date.now() < pollAfter) {
+    return;
   }
 
-  console.warn('[QuickCheck] Starting continuous polling loop (idle: 30s, browsing: 10s)');
+  const { notifications, pollInterval } = await fetchNotifications(NOTIFICATIONS_LIMIT, ctx);
+  await setMeta(
+    pollKey,
+    Date.now() + (pollInterval ?? NOTIFICATIONS_DEFAULT_POLL_INTERVAL_S) * 1000,
+  );
 
-  // Run first check immediately, then schedule subsequent checks
-  runQuickCheckOnce()
-    .catch((err) => {
-      console.error('[QuickCheck] Error in initial check:', err);
-    })
-    .finally(() => {
-      scheduleNextQuickCheck();
-    });
+  const existing = (await getAllNotifications()).filter(
+    (notification) =>
+      notification.account === (accountLogin ?? undefined) && notification.host === ctx.host,
+  );
+  const existingMap = new Map(existing.map((notification) => [notification.id, notification]));
+
+  // Issues and PRs of a repo are loaded once, however many of its threads there are
+  const issuesByRepo = new Map<string, Promise<IssueRecord[]>>();
+  const prsByRepo = new Map<string, Promise<PullRequestRecord[]>>();
+  const loadOnce = <T>(cache: Map<string, Promise<T>>, repoKey: string, load: () => Promise<T>) => {
+    if (!cache.has(repoKey)) cache.set(repoKey, load());
+    return cache.get(repoKey)!;
+  };
+
+  const records = await Promise.all(
+    notifications.map(async (thread): Promise<NotificationRecord> => {
+      const repoKey = recordKey(ctx.host, thread.repository.id);
+      const subjectNumber = parseNotificationSubjectNumber(thread);
+      const pr =
+        subjectNumber !== undefined && thread.subject.type === 'PullRequest'
+          ? (await loadOnce(prsByRepo, repoKey, () => getPullRequestsByRepo(repoKey))).find(
+              (record) => record.number === subjectNumber,
+            )
+          : undefined;
+      const issue =
+        subjectNumber !== undefined && thread.subject.type === 'Issue'
+          ? (await loadOnce(issuesByRepo, repoKey, () => getIssuesByRepo(repoKey))).find(
+              (record) => record.number === subjectNumber,
+            )
+          : undefined;
+
+      // Marked as read from the palette: a cached (304) listing still says unread until the
+      // thread gets new activity
+      const previous = existingMap.get(thread.id);
+      const markedReadAt =
+        previous?.marked_read_at && new Date(thread.updated_at).getTime() <= previous.marked_read_at
+          ? previous.marked_read_at
+          : undefined;
+
+      return {
+        ...thread,
+        key: recordKey(ctx.host, thread.id),
+        unread: thread.unread && markedReadAt === undefined,
+        host: ctx.host,
+        account: accountLogin ?? undefined,
+        html_url: pr?.html_url ?? issue?.html_url ?? notificationWebUrl(thread, subjectNumber),
+        subject_number: subjectNumber,
+        pr_key: pr?.key,
+        issue_key: issue?.key,
+        marked_read_at: markedReadAt,
+        last_fetched_at: Date.now(),
+      };
+    }),
+  );
+
+  const fetchedIds = new Set(notifications.map((notification) => notification.id));
+  const staleKeys = existing
+    .filter((notification) => !fetchedIds.has(notification.id))
+    .map((n) => n.key);
+  await saveNotifications(records);
+  await deleteNotifications(staleKeys);
+  recordChanges(ctx, existingMap, [...fetchedIds], staleKeys.length);
+}
+
+/**
+ * Issue/PR number of a notification subject, from its API URL (.../issues/42, .../pulls/42)
+ */
+function parseNotificationSubjectNumber(thread: GitHubNotification): number | undefined {
+  const match = thread.subject.url?.match(/\/(?:issues|pulls)\/(\d+)$/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Web page of a notification subject that is not in the index
+ */
+function notificationWebUrl(thread: GitHubNotification, subjectNumber?: number): string {
+  const repoUrl = thread.repository.html_url;
+  switch (thread.subject.type) {
+    case 'PullRequest':
+      return subjectNumber !== undefined ? `${repoUrl}/pull/${subjectNumber}` : `${repoUrl}/pulls`;
+    case 'Issue':
+      return subjectNumber !== undefined
+        ? `${repoUrl}/issues/${subjectNumber}`
+        : `${repoUrl}/issues`;
+    case 'Discussion':
+      return `${repoUrl}/discussions`;
+    case 'Release':
+      return `${repoUrl}/releases`;
+    case 'CheckSuite':
+      return `${repoUrl}/actions`;
+    default:
+      return repoUrl;
+  }
+}
+
+/**
+ * Delete everything stored for an enterprise host removed from the settings: its repos (with
+ * their issues, PRs, ...) and their sync state, its gists, projects and notifications
+ * @returns Number of repos deleted
+ */
+export async function removeHostRecords(host: string): Promise<number> {
+  const repoKeys = (await getAllRepos())
+    .filter((repo) => repo.host === host)
+    .map((repo) => repo.key);
+  const keysOnHost = (records: { key: string; host?: string }[]) =>
+    records.filter((record) => record.host === host).map((record) => record.key);
+
+  await deleteRepos(repoKeys);
+  await deleteMeta(
+    repoKeys.flatMap((key) => [
+      `${ISSUE_SYNC_CURSOR_PREFIX}${key}`,
+      `${BRANCHES_FETCHED_AT_PREFIX}${key}`,
+    ]),
+  );
+  await deleteGists(keysOnHost(await getAllGists()));
+  await deleteProjects(keysOnHost(await getAllProjects()));
+  await deleteNotifications(keysOnHost(await getAllNotifications()));
+  console.warn(`[Import] Removed ${repoKeys.length} repos of ${host}`);
+  return repoKeys.length;
+}
+
+/**
+ * Mark a notification thread as read on GitHub (from the palette)
+ * The thread stays stored, flagged as read, until the next poll no longer lists it
+ */
+export async function markNotificationRead(key: string): Promise<void> {
+  const notification = await getNotification(key);
+  if (!notification) {
+    return;
+  }
+
+  // Threads belong to an account: the primary one goes without an account in the context
+  const { accountLogin } = await getImportStatus();
+  const ctx: GitHubRequestContext = notification.host
+    ? { host: notification.host }
+    : notification.account && notification.account.toLowerCase() !== accountLogin?.toLowerCase()
+      ? { account: notification.account }
+      : {};
+
+  await markNotificationThreadRead(notification.id, { ...ctx, priority: 'high' });
+  await saveNotifications([{ ...notification, unread: false, marked_read_at: Date.now() }]);
+}
+
+/**
+ * Make sure the sync alarms exist, and pick browsing mode back up if the palette is still open
+ * Alarms outlive the service worker but not always a browser restart, so call on every worker start.
+ * @returns Whether the full import alarm was missing (fresh install or browser restart)
+ */
+export async function ensureSyncAlarms(): Promise<boolean> {
+  if (!(await browser.alarms.get(QUICK_CHECK_ALARM))) {
+    await browser.alarms.create(QUICK_CHECK_ALARM, { periodInMinutes: QUICK_CHECK_PERIOD_MINUTES });
+  }
+
+  const importAlarmMissing = !(await browser.alarms.get(FULL_IMPORT_ALARM));
+  if (importAlarmMissing) {
+    console.warn(`[Import] Scheduling full import every ${FULL_IMPORT_PERIOD_MINUTES}min`);
+    await browser.alarms.create(FULL_IMPORT_ALARM, { periodInMinutes: FULL_IMPORT_PERIOD_MINUTES });
+  }
+
+  // The worker was suspended while the palette was open: the browsing timer died with it
+  const browsingUntil = (await getMeta(QUICK_CHECK_BROWSING_UNTIL_KEY)) as number | null;
+  if (browsingUntil && browsingUntil > Date.now() && !browsingTimeoutId) {
+    console.warn('[QuickCheck] Resuming BROWSING mode after worker restart');
+    currentQuickCheckMode = 'browsing';
+    scheduleNextBrowsingCheck();
+  }
+
+  return importAlarmMissing;
+}
+
+/**
+ * Run the sync an alarm is due for (ignores alarms that aren't ours)
+ */
+export async function handleSyncAlarm(
+  alarmName: string,
+  onProgress?: ImportProgressCallback,
+  signal?: AbortSignal,
+): Promise<void> {
+  if (alarmName === FULL_IMPORT_ALARM) {
+    if ((await getImportContexts()).length === 0) {
+      console.warn('[Import] Skipped scheduled import - no GitHub token configured yet');
+      return;
+    }
+    await runImport(onProgress, signal);
+  } else if (alarmName === QUICK_CHECK_ALARM) {
+    if (browsingTimeoutId) {
+      return; // The browsing timer is checking more often already
+    }
+    await runQuickCheckOnce('scheduled');
+  }
+}
+
+/**
+ * Get when the scheduled syncs run next
+ */
+export async function getSyncSchedule(): Promise<SyncSchedule> {
+  const [importAlarm, quickCheckAlarm] = await Promise.all([
+    browser.alarms.get(FULL_IMPORT_ALARM),
+    browser.alarms.get(QUICK_CHECK_ALARM),
+  ]);
+  return {
+    nextImportAt: importAlarm?.scheduledTime ?? null,
+    nextQuickCheckAt: nextBrowsingCheckAt ?? quickCheckAlarm?.scheduledTime ?? null,
+    quickCheckMode: currentQuickCheckMode,
+  };
+}
+
+/**
+ * Schedule the next browsing-mode quick-check
+ * Alarms can't fire more often than every 30 seconds, so browsing mode runs on a timer; it lasts
+ * only as long as the worker does, and falls back to the alarm once browsing mode expires.
+ */
+function scheduleNextBrowsingCheck(): void {
+  nextBrowsingCheckAt = Date.now() + QUICK_CHECK_DELAY_BROWSING_MS;
+  browsingTimeoutId = setTimeout(() => {
+    void (async () => {
+      const browsingUntil = (await getMeta(QUICK_CHECK_BROWSING_UNTIL_KEY)) as number | null;
+      if (!browsingUntil || browsingUntil <= Date.now()) {
+        console.warn('[QuickCheck] BROWSING mode expired, back to IDLE mode');
+        stopBrowsingChecks();
+        return;
+      }
+
+      try {
+        await runQuickCheckOnce('browsing');
+      } catch (err) {
+        console.error('[QuickCheck] Unexpected error in loop:', err);
+      } finally {
+        if (browsingTimeoutId) {
+          scheduleNextBrowsingCheck();
+        }
+      }
+    })();
+  }, QUICK_CHECK_DELAY_BROWSING_MS);
+}
+
+/**
+ * Stop the browsing timer, leaving quick-checks to the alarm
+ */
+function stopBrowsingChecks(): void {
+  if (browsingTimeoutId) {
+    clearTimeout(browsingTimeoutId);
+    browsingTimeoutId = null;
+  }
+  nextBrowsingCheckAt = null;
+  currentQuickCheckMode = 'idle';
 }
 
 /**
  * Switch to BROWSING mode (faster polling) and trigger immediate check
  * Call this when the command palette opens
  */
-export function setQuickCheckBrowsingMode(): void {
+export async function setQuickCheckBrowsingMode(): Promise<void> {
+  // Kept in meta so a restarted worker resumes it; renewed every time the palette opens
+  await setMeta(QUICK_CHECK_BROWSING_UNTIL_KEY, Date.now() + QUICK_CHECK_BROWSING_MAX_MS);
   if (currentQuickCheckMode === 'browsing') {
     return; // Already in browsing mode
   }
@@ -1090,43 +2975,28 @@ export function setQuickCheckBrowsingMode(): void {
   console.warn('[QuickCheck] Switching to BROWSING mode (10s delay)');
   currentQuickCheckMode = 'browsing';
 
-  // Cancel current timeout and run check immediately
-  if (quickCheckTimeoutId) {
-    clearTimeout(quickCheckTimeoutId);
-    quickCheckTimeoutId = null;
-  }
-
-  // Run immediate check, then schedule next with new delay
-  runQuickCheckOnce()
+  // Run immediate check, then schedule next with the browsing delay
+  runQuickCheckOnce('browsing')
     .catch((err) => {
       console.error('[QuickCheck] Error in immediate check:', err);
     })
     .finally(() => {
-      scheduleNextQuickCheck();
+      if (currentQuickCheckMode === 'browsing' && !browsingTimeoutId) {
+        scheduleNextBrowsingCheck();
+      }
     });
 }
 
 /**
- * Switch back to IDLE mode (slower polling)
+ * Switch back to IDLE mode (slower polling, by the quick-check alarm)
  * Call this when the command palette closes
  */
-export function setQuickCheckIdleMode(): void {
+export async function setQuickCheckIdleMode(): Promise<void> {
+  await setMeta(QUICK_CHECK_BROWSING_UNTIL_KEY, null);
   if (currentQuickCheckMode === 'idle') {
     return; // Already in idle mode
   }
 
   console.warn('[QuickCheck] Switching to IDLE mode (30s delay)');
-  currentQuickCheckMode = 'idle';
-  // Loop will pick up the new delay on next iteration
-}
-
-/**
- * Stop the quick-check polling loop
- */
-export function stopQuickCheckLoop(): void {
-  if (quickCheckTimeoutId) {
-    clearTimeout(quickCheckTimeoutId);
-    quickCheckTimeoutId = null;
-    console.warn('[QuickCheck] Stopped polling loop');
-  }
+  stopBrowsingChecks();
 }
@@ -0,0 +1,436 @@
+/**
+ * Import data sources - GraphQL first, REST as a fallback
+ * The engine calls these instead of the API clients directly so the transport can be swapped
+ * without touching the import pipeline.
+ */
+
+import {
+  getAllAccessibleRepos,
+  getRepoIssues,
+  getRepoIssueComments,
+  getRepoPullRequests,
+  getUserInvolvedPullRequests,
+  getPullRequestReviewState,
+  getCommitChecksState,
+  isUserContributor,
+  getLastContributionDate,
+  getRepoReleases,
+  getRepoTags,
+  getRepoMilestones,
+  getRepoWorkflowRuns,
+  getUserGists,
+  getUserStarredRepos,
+  getNotifications,
+  getRepoBranches,
+  getBranchHeadSha,
+  getRepoTree,
+  getUserOrganizations,
+  getRepoByFullName,
+  isAbortError,
+  DEFAULT_WEB_HOST,
+  type GitHubRequestContext,
+} from '@/src/api/github';
+import {
+  getAllAccessibleReposGraphQL,
+  getReposContributionGraphQL,
+  getRepoIssuesGraphQL,
+  getRepoPullRequestsGraphQL,
+  getUserInvolvedPullRequestsGraphQL,
+  getRepoDiscussionsGraphQL,
+  getOrgProjectsGraphQL,
+  isGraphQLError,
+  type RepoContribution,
+} from '@/src/api/graphql';
+import type {
+  GitHubRepo,
+  GitHubIssue,
+  GitHubIssueComment,
+  GitHubPullRequest,
+  PullRequestChecksState,
+  GitHubDiscussion,
+  GitHubRelease,
+  GitHubTag,
+  GitHubMilestone,
+  GitHubWorkflowRun,
+  GitHubGist,
+  GitHubNotification,
+  GitHubBranch,
+  GitHubTree,
+  GitHubOrg,
+  GitHubProject,
+} from '@/src/types';
+import { mapWithConcurrency } from '@/src/utils/pool';
+
+// After this many consecutive GraphQL failures on a host we stop trying it for the session
+// Only GitHub rejecting a query counts: transport, rate limit and not-found errors don't
+const GRAPHQL_MAX_FAILURES = 3;
+const graphqlFailures = new Map<string, number>(); // Per host: an Enterprise Server's schema can lag
+
+async function withGraphQLFallback<T>(
+  label: string,
+  ctx: GitHubRequestContext,
+  viaGraphQL: () => Promise<T>,
+  viaRest: () => Promise<T>,
+): Promise<T> {
+  const host = ctx.host ?? DEFAULT_WEB_HOST;
+  if ((graphqlFailures.get(host) ?? 0) < GRAPHQL_MAX_FAILURES) {
+    try {
+      const result = await viaGraphQL();
+      graphqlFailures.delete(host);
+      return result;
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error; // Cancelled, not a GraphQL failure
+      }
+      if (isGraphQLError(error)) {
+        // Read again: other requests to the host may have failed meanwhile
+        const failures = (graphqlFailures.get(host) ?? 0) + 1;
+        graphqlFailures.set(host, failures);
+        console.warn(
+          `[Import] GraphQL ${label} failed on ${host} (${failures}/${GRAPHQL_MAX_FAILURES}), falling back to REST:`,
+          error,
+        );
+      } else {
+        console.warn(`[Import] GraphQL ${label} failed on ${host}, falling back to REST:`, error);
+      }
+    }
+  }
+
+  return viaRest();
+}
+
+/**
+ * Fetch all accessible repos (user + organizations + upstreams of personal forks)
+ * complete is false when some source didn't answer, so absent repos may still exist
+ */
+export function fetchAllRepos(
+  currentUserLogin?: string,
+  ctx: GitHubRequestContext = {},
+): Promise<{
+  repos: GitHubRepo[];
+  personalForkParentRepoIds: number[];
+  complete: boolean;
+}> {
+  return withGraphQLFallback(
+    'repos',
+    ctx,
+    () => getAllAccessibleReposGraphQL(currentUserLogin, ctx),
+    () => getAllAccessibleRepos(currentUserLogin, ctx),
+  );
+}
+
+/**
+ * Fetch the repos starred by the account (REST only)
+ */
+export function fetchStarredRepos(ctx: GitHubRequestContext = {}): Promise<GitHubRepo[]> {
+  return getUserStarredRepos(ctx);
+}
+
+/**
+ * Fetch a single repo by full name (REST only); throws a not-found error once it's gone
+ */
+export function fetchRepo(fullName: string, ctx: GitHubRequestContext = {}): Promise<GitHubRepo> {
+  return getRepoByFullName(fullName, ctx);
+}
+
+/**
+ * Fetch contribution status for a list of repos
+ * GraphQL batches many repos per request; REST needs two requests per repo
+ * @param concurrency Repos checked at a time over REST
+ */
+export function fetchContributions(
+  repos: Array<{ id: number; full_name: string }>,
+  user: { login: string; node_id?: string },
+  ctx: GitHubRequestContext = {},
+  concurrency?: number,
+): Promise<Map<number, RepoContribution>> {
+  const viaRest = async (): Promise<Map<number, RepoContribution>> => {
+    // Bounded like the per-repo import: hundreds of repos would otherwise queue up all at once
+    const entries = await mapWithConcurrency(
+      repos,
+      async (repo): Promise<[number, RepoContribution]> => {
+        const [owner, repoName] = repo.full_name.split('/');
+        let meContributing = false;
+        let lastContributedAt: string | null = null;
+
+        try {
+          meContributing = await isUserContributor(owner, repoName, user.login, ctx);
+
+          // If user is a contributor, get the date of their last contribution
+          if (meContributing) {
+            lastContributedAt = await getLastContributionDate(owner, repoName, user.login, ctx);
+          }
+        } catch (err) {
+          console.warn(`[Import]Could not check contributor status for ${repo.full_name}:`, err);
+        }
+
+        return [repo.id, { meContributing, lastContributedAt }];
+      },
+      concurrency,
+    );
+    return new Map(entries);
+  };
+
+  if (!user.node_id) {
+    return viaRest();
+  }
+
+  const nodeId = user.node_id;
+  return withGraphQLFallback(
+    'contributions',
+    ctx,
+    () => getReposContributionGraphQL(repos, nodeId, ctx),
+    viaRest,
+  );
+}
+
+/**
+ * Fetch all issues for a repo, or only those updated since the given ISO 8601 time
+ */
+export function fetchRepoIssues(
+  owner: string,
+  repo: string,
+  since?: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubIssue[]> {
+  return withGraphQLFallback(
+    `issues for ${owner}/${repo}`,
+    ctx,
+    () => getRepoIssuesGraphQL(owner, repo, since, ctx),
+    () => getRepoIssues(owner, repo, 'all', since, ctx),
+  );
+}
+
+/**
+ * Fetch the issues of a repo updated since the given ISO 8601 time (REST only)
+ * Meant for polling: an unchanged REST query is revalidated for free (304), a GraphQL one never is
+ */
+export function fetchRepoIssueChanges(
+  owner: string,
+  repo: string,
+  since: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubIssue[]> {
+  return getRepoIssues(owner, repo, 'all', since, ctx);
+}
+
+/**
+ * Fetch a repo's most recently updated issue and PR comments (REST only)
+ */
+export function fetchRepoIssueComments(
+  owner: string,
+  repo: string,
+  limit: number,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubIssueComment[]> {
+  return getRepoIssueComments(owner, repo, limit, ctx);
+}
+
+/**
+ * Fetch open PRs and the most recently updated closed PRs for a repo
+ */
+export function fetchRepoPullRequests(
+  owner: string,
+  repo: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubPullRequest[]> {
+  return withGraphQLFallback(
+    `PRs for ${owner}/${repo}`,
+    ctx,
+    () => getRepoPullRequestsGraphQL(owner, repo, ctx),
+    () =>
+      getRepoPullRequests(owner, repo, ctx).then((prs) => withReviewState(owner, repo, prs, ctx)),
+  );
+}
+
+/**
+ * Fetch PRs in a repo where the user is involved (author, assignee, or reviewer)
+ */
+export function fetchUserInvolvedPullRequests(
+  owner: string,
+  repo: string,
+  username: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubPullRequest[]> {
+  return withGraphQLFallback(
+    `involved PRs for ${owner}/${repo}`,
+    ctx,
+    () => getUserInvolvedPullRequestsGraphQL(owner, repo, username, ctx),
+    () =>
+      getUserInvolvedPullRequests(owner, repo, username, ctx).then((prs) =>
+        withReviewState(owner, repo, prs, ctx),
+      ),
+  );
+}
+
+/**
+ * Add review decision, latest reviews and CI state to REST PRs (GraphQL returns them inline)
+ * Only open PRs: that's where the badges matter, and it costs three requests per PR
+ */
+async function withReviewState(
+  owner: string,
+  repo: string,
+  prs: GitHubPullRequest[],
+  ctx: GitHubRequestContext,
+): Promise<GitHubPullRequest[]> {
+  return Promise.all(
+    prs.map(async (pr) => {
+      if (pr.state !== 'open') return pr;
+
+      try {
+        return { ...pr, ...(await getPullRequestReviewState(owner, repo, pr, ctx)) };
+      } catch (err) {
+        console.warn(
+          `[Import] Failed to fetch review state for ${owner}/${repo}#${pr.number}:`,
+          err,
+        );
+        return pr;
+      }
+    }),
+  );
+}
+
+/**
+ * Fetch the combined CI state of a PR head commit (REST only: cheaper than refetching the PR)
+ */
+export function fetchPullRequestChecksState(
+  owner: string,
+  repo: string,
+  sha: string,
+  ctx: GitHubRequestContext = {},
+): Promise<PullRequestChecksState | null> {
+  return getCommitChecksState(owner, repo, sha, ctx);
+}
+
+/**
+ * Fetch the most recently updated discussions for a repo
+ * GraphQL only (REST has no list endpoint), so there is no fallback
+ */
+export function fetchRepoDiscussions(
+  owner: string,
+  repo: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubDiscussion[]> {
+  return getRepoDiscussionsGraphQL(owner, repo, ctx);
+}
+
+/**
+ * Fetch the account's unread notification threads (REST only: GraphQL has no notifications API)
+ */
+export function fetchNotifications(
+  limit: number,
+  ctx: GitHubRequestContext = {},
+): Promise<{ notifications: GitHubNotification[]; pollInterval: number | null }> {
+  return getNotifications(limit, ctx);
+}
+
+/**
+ * Fetch the organizations the account is a member of (REST only)
+ */
+export function fetchUserOrganizations(ctx: GitHubRequestContext = {}): Promise<GitHubOrg[]> {
+  return getUserOrganizations(ctx);
+}
+
+/**
+ * Fetch the most recently updated Projects (v2) of an organization, with their items
+ * GraphQL only (Projects v2 have no REST API), so there is no fallback
+ */
+export function fetchOrgProjects(
+  org: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubProject[]> {
+  return getOrgProjectsGraphQL(org, ctx);
+}
+
+/**
+ * Fetch the most recent releases for a repo
+ * REST only: one page covers what a jump-to-release needs
+ */
+export function fetchRepoReleases(
+  owner: string,
+  repo: string,
+  limit: number,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubRelease[]> {
+  return getRepoReleases(owner, repo, limit, ctx);
+}
+
+/**
+ * Fetch the most recent tags for a repo (REST only)
+ */
+export function fetchRepoTags(
+  owner: string,
+  repo: string,
+  limit: number,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubTag[]> {
+  return getRepoTags(owner, repo, limit, ctx);
+}
+
+/**
+ * Fetch a repo's milestones, open and closed (REST only)
+ */
+export function fetchRepoMilestones(
+  owner: string,
+  repo: string,
+  limit: number,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubMilestone[]> {
+  return getRepoMilestones(owner, repo, limit, ctx);
+}
+
+/**
+ * Fetch the most recent workflow runs for a repo, optionally limited to one branch (REST only)
+ */
+export function fetchRepoWorkflowRuns(
+  owner: string,
+  repo: string,
+  limit: number,
+  branch?: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubWorkflowRun[]> {
+  return getRepoWorkflowRuns(owner, repo, limit, branch, ctx);
+}
+
+/**
+ * Fetch every gist of the authenticated user (REST only)
+ */
+export function fetchUserGists(ctx: GitHubRequestContext = {}): Promise<GitHubGist[]> {
+  return getUserGists(ctx);
+}
+
+/**
+ * Fetch a repo's branches (REST only)
+ */
+export function fetchRepoBranches(
+  owner: string,
+  repo: string,
+  limit: number,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubBranch[]> {
+  return getRepoBranches(owner, repo, limit, ctx);
+}
+
+/**
+ * Fetch the commit SHA a branch points to (REST only)
+ */
+export function fetchBranchHeadSha(
+  owner: string,
+  repo: string,
+  branch: string,
+  ctx: GitHubRequestContext = {},
+): Promise<string> {
+  return getBranchHeadSha(owner, repo, branch, ctx);
+}
+
+/**
+ * Fetch the recursive file tree of a commit (REST only)
+ */
+export function fetchRepoTree(
+  owner: string,
+  repo: string,
+  sha: string,
+  ctx: GitHubRequestContext = {},
+): Promise<GitHubTree> {
+  return getRepoTree(owner, repo, sha, ctx);
+}
@@ -5,10 +5,19 @@ export const MessageType = {
   TOGGLE_OVERLAY: 'TOGGLE_OVERLAY',
   GET_IMPORT_STATUS: 'GET_IMPORT_STATUS',
   GET_RATE_LIMIT: 'GET_RATE_LIMIT',
+  GET_SYNC_PAUSE: 'GET_SYNC_PAUSE',
+  GET_SYNC_SCHEDULE: 'GET_SYNC_SCHEDULE',
   GET_ALL_REPOS: 'GET_ALL_REPOS',
   GET_ISSUES_BY_REPO: 'GET_ISSUES_BY_REPO',
   GET_PRS_BY_REPO: 'GET_PRS_BY_REPO',
+  GET_DISCUSSIONS_BY_REPO: 'GET_DISCUSSIONS_BY_REPO',
+  GET_BRANCHES_BY_REPO: 'GET_BRANCHES_BY_REPO',
+  GET_FILE_TREE: 'GET_FILE_TREE',
+  GET_PROJECT_ITEMS: 'GET_PROJECT_ITEMS',
+  GET_NOTIFICATIONS: 'GET_NOTIFICATIONS',
+  MARK_NOTIFICATION_READ: 'MARK_NOTIFICATION_READ',
   FORCE_IMPORT: 'FORCE_IMPORT',
+  CANCEL_IMPORT: 'CANCEL_IMPORT',
   RECORD_VISIT: 'RECORD_VISIT',
   SET_REPO_INDEXED: 'SET_REPO_INDEXED',
   SET_QUICK_CHECK_BROWSING: 'SET_QUICK_CHECK_BROWSING',
@@ -19,6 +28,7 @@ export const MessageType = {
   FETCH_AND_SAVE_PR: 'FETCH_AND_SAVE_PR',
   FETCH_AND_SAVE_ISSUE: 'FETCH_AND_SAVE_ISSUE',
   TOKEN_SAVED: 'TOKEN_SAVED',
+  REMOVE_HOST_RECORDS: 'REMOVE_HOST_RECORDS',
   OPEN_OPTIONS_PAGE: 'OPEN_OPTIONS_PAGE',
 } as const;
 
@@ -3,6 +3,8 @@
  * Uses browser.storage.local for tokens and IndexedDB for cached data
  */
 
+import { DEFAULT_CONCURRENCY } from '@/src/utils/pool';
+
 const STORAGE_KEYS = {
   GITHUB_TOKEN: 'github_token',
   AUTH_METADATA: 'auth_metadata',
@@ -12,6 +14,8 @@ const STORAGE_KEYS = {
   DEBUG_MODE: 'debug_mode',
   ORG_FILTER_PREFERENCES: 'org_filter_preferences',
   MY_ORGS_FROM_API: 'my_orgs_from_api', // Personal account + orgs from /user/orgs
+  ENTERPRISE_HOSTS: 'enterprise_hosts',
+  GITHUB_ACCOUNTS: 'github_accounts', // Additional github.com accounts (the primary one uses GITHUB_TOKEN)
 } as const;
 
 /**
@@ -30,6 +34,18 @@ export interface AuthMetadata {
 export interface ImportPreferences {
   importIssues: boolean;
   importPullRequests: boolean;
+  importDiscussions: boolean;
+  importReleases: boolean;
+  importTags: boolean; // Also index tags without a release (off by default: many repos tag a lot)
+  importMilestones: boolean;
+  importWorkflowRuns: boolean;
+  importGists: boolean;
+  importProjects: boolean;
+  importStarred: boolean; // Also import starred repos (searchable by name, indexing is opt-in)
+  importNotifications: boolean; // Poll unread notification threads during quick-check
+  importBodies: boolean; // Index issue/PR bodies for full-text search (off by default: it's bulky)
+  importComments: boolean; // Also index their recent comments
+  syncConcurrency: number; // Repos synced (and contribution-checked over REST) at a time in a full import
 }
 
 /**
@@ -51,6 +67,28 @@ export interface OrgFilterPreferences {
   enabledOrgs: Record<string, boolean>; // { "my-company": true, "other-org": false, "__personal__": true }
 }
 
+/**
+ * GitHub Enterprise Server host
+ * github.com is always the default host; each enterprise host has its own API base and token
+ */
+export interface EnterpriseHost {
+  webHost: string; // e.g. "github.mycorp.com" (also identifies the host)
+  apiBase: string; // e.g. "https://github.mycorp.com/api/v3"
+  token: string | null; // null until signed in
+  oauthClientId?: string; // OAuth app registered on the instance (enables device flow sign-in)
+  authMethod?: 'oauth' | 'pat';
+}
+
+/**
+ * Additional github.com account indexed alongside the primary one
+ * The primary account keeps using the single token + AuthMetadata above
+ */
+export interface GitHubAccount {
+  login: string; // Also identifies the account
+  token: string;
+  metadata: AuthMetadata;
+}
+
 /**
  * Save GitHub personal access token
  */
@@ -116,16 +154,28 @@ export async function getAuthMethod(): Promise<'oauth' | 'pat' | null> {
 }
 
 /**
- * Get import preferences (defaults: import both issues and PRs)
+ * Get import preferences (defaults: import everything but bare tags)
  */
 export async function getImportPreferences(): Promise<ImportPreferences> {
   const result = await browser.storage.local.get(STORAGE_KEYS.IMPORT_PREFERENCES);
   const prefs = result[STORAGE_KEYS.IMPORT_PREFERENCES] as ImportPreferences | undefined;
 
-  // Default: import both
+  // Default: import everything but bare tags and starred repos
   return {
     importIssues: prefs?.importIssues ?? true,
     importPullRequests: prefs?.importPullRequests ?? true,
+    importDiscussions: prefs?.importDiscussions ?? true,
+    importReleases: prefs?.importReleases ?? true,
+    importTags: prefs?.importTags ?? false,
+    importMilestones: prefs?.importMilestones ?? true,
+    importWorkflowRuns: prefs?.importWorkflowRuns ?? true,
+    importGists: prefs?.importGists ?? true,
+    importProjects: prefs?.importProjects ?? true,
+    importStarred: prefs?.importStarred ?? false,
+    importNotifications: prefs?.importNotifications ?? true,
+    importBodies: prefs?.importBodies ?? false,
+    importComments: prefs?.importComments ?? false,
+    syncConcurrency: prefs?.syncConcurrency ?? DEFAULT_CONCURRENCY,
   };
 }
 
@@ -237,6 +287,72 @@ export async function saveMyOrgsFromAPI(orgs: string[]): Promise<void> {
   });
 }
 
+/**
+ * Get registered GitHub Enterprise Server hosts
+ */
+export async function getEnterpriseHosts(): Promise<EnterpriseHost[]> {
+  const result = await browser.storage.local.get(STORAGE_KEYS.ENTERPRISE_HOSTS);
+  return (result[STORAGE_KEYS.ENTERPRISE_HOSTS] as EnterpriseHost[] | undefined) ?? [];
+}
+
+/**
+ * Save GitHub Enterprise Server hosts
+ */
+export async function saveEnterpriseHosts(hosts: EnterpriseHost[]): Promise<void> {
+  await browser.storage.local.set({
+    [STORAGE_KEYS.ENTERPRISE_HOSTS]: hosts.map((host) => ({ ...host })),
+  });
+}
+
+/**
+ * Save the token for a registered enterprise host
+ */
+export async function saveEnterpriseHostToken(
+  webHost: string,
+  token: string | null,
+  authMethod?: 'oauth' | 'pat',
+): Promise<void> {
+  const hosts = await getEnterpriseHosts();
+  await saveEnterpriseHosts(
+    hosts.map((host) => (host.webHost === webHost ? { ...host, token, authMethod } : host)),
+  );
+}
+
+/**
+ * Get additional github.com accounts
+ */
+export async function getGitHubAccounts(): Promise<GitHubAccount[]> {
+  const result = await browser.storage.local.get(STORAGE_KEYS.GITHUB_ACCOUNTS);
+  return (result[STORAGE_KEYS.GITHUB_ACCOUNTS] as GitHubAccount[] | undefined) ?? [];
+}
+
+/**
+ * Add or replace an additional github.com account (matched by login)
+ */
+export async function saveGitHubAccount(account: GitHubAccount): Promise<void> {
+  const accounts = (await getGitHubAccounts()).filter(
+    (a) => a.login.toLowerCase() !== account.login.toLowerCase(),
+  );
+  await browser.storage.local.set({
+    [STORAGE_KEYS.GITHUB_ACCOUNTS]: [
+      ...accounts,
+      { ...account, metadata: { ...account.metadata } },
+    ],
+  });
+}
+
+/**
+ * Remove an additional github.com account
+ */
+export async function removeGitHubAccount(login: string): Promise<void> {
+  const accounts = await getGitHubAccounts();
+  await browser.storage.local.set({
+    [STORAGE_KEYS.GITHUB_ACCOUNTS]: accounts.filter(
+      (a) => a.login.toLowerCase() !== login.toLowerCase(),
+    ),
+  });
+}
+
 /**
  * Theme cache for instant theme application
  * Stored separately per GitHub page to handle user switching between light/dark on different repos
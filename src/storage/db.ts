@@ -3,19 +3,80 @@
  * Stores repos, issues, pull requests, and metadata
  */
 
-import type { RepoRecord, IssueRecord, PullRequestRecord, MetaRecord } from '@/src/types';
+import type {
+  RepoRecord,
+  IssueRecord,
+  PullRequestRecord,
+  DiscussionRecord,
+  ReleaseRecord,
+  MilestoneRecord,
+  WorkflowRunRecord,
+  GistRecord,
+  NotificationRecord,
+  ProjectRecord,
+  BranchRecord,
+  FileTreeRecord,
+  SearchDocumentRecord,
+  MetaRecord,
+  HttpCacheRecord,
+  SyncRunRecord,
+} from '@/src/types';
+import { recordKey } from '@/src/utils/recordKey';
 
 const DB_NAME = 'git-look-around';
-const DB_VERSION = 5; // Bumped for last_contributed_at field
+const DB_VERSION = 19; // Bumped for host-qualified record keys
 
 // Store names
 export const STORES = {
   REPOS: 'repos',
   ISSUES: 'issues',
   PULL_REQUESTS: 'pull_requests',
+  DISCUSSIONS: 'discussions',
+  RELEASES: 'releases',
+  MILESTONES: 'milestones',
+  WORKFLOW_RUNS: 'workflow_runs',
+  GISTS: 'gists',
+  PROJECTS: 'projects',
+  NOTIFICATIONS: 'notifications',
+  BRANCHES: 'branches',
+  FILE_TREES: 'file_trees',
+  SEARCH_DOCUMENTS: 'search_documents',
   META: 'meta',
+  HTTP_CACHE: 'http_cache',
+  SYNC_RUNS: 'sync_runs',
 } as const;
 
+const HOST_KEYS_VERSION = 19; // First version with host-qualified record keys
+const LEGACY_STORE_SUFFIX = '_before_host_keys';
+
+// Stores whose records are keyed by (or point to) GitHub IDs
+const HOST_KEYED_STORES: string[] = [
+  STORES.REPOS,
+  STORES.ISSUES,
+  STORES.PULL_REQUESTS,
+  STORES.DISCUSSIONS,
+  STORES.RELEASES,
+  STORES.MILESTONES,
+  STORES.WORKFLOW_RUNS,
+  STORES.GISTS,
+  STORES.PROJECTS,
+  STORES.NOTIFICATIONS,
+  STORES.BRANCHES,
+  STORES.FILE_TREES,
+  STORES.SEARCH_DOCUMENTS,
+];
+
+/**
+ * A record as stored before host-qualified keys
+ */
+type LegacyRecord = Record<string, unknown> & {
+  id?: number | string;
+  repo_id?: number;
+  host?: string;
+  pr_id?: number;
+  issue_id?: number;
+};
+
 /**
  * Initialize IndexedDB database
  */
@@ -28,11 +89,20 @@ export function initDB(): Promise<IDBDatabase> {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction!;
+
+      // Records used to be keyed by their GitHub ID alone, which enterprise hosts reuse: move the
+      // old stores aside, create them again below with host-qualified keys, and copy the records
+      const legacyStores =
+        event.oldVersion > 0 && event.oldVersion < HOST_KEYS_VERSION
+          ? moveAsideLegacyStores(db, upgradeTransaction)
+          : [];
 
       // Create repos store
       if (!db.objectStoreNames.contains(STORES.REPOS)) {
-        const repoStore = db.createObjectStore(STORES.REPOS, { keyPath: 'id' });
-        repoStore.createIndex('full_name', 'full_name', { unique: true });
+        const repoStore = db.createObjectStore(STORES.REPOS, { keyPath: 'key' });
+        // Not unique: the same owner/name can exist on github.com and an enterprise host
+        repoStore.createIndex('full_name', 'full_name', { unique: false });
         repoStore.createIndex('pushed_at', 'pushed_at', { unique: false });
         repoStore.createIndex('last_fetched_at', 'last_fetched_at', { unique: false });
         repoStore.createIndex('last_visited_at', 'last_visited_at', { unique: false });
@@ -43,8 +113,7 @@ export function initDB(): Promise<IDBDatabase> {
         repoStore.createIndex('indexed_manually', 'indexed_manually', { unique: false });
       } else {
         // Handle schema upgrades for existing databases
-        const transaction = (event.target as IDBOpenDBRequest).transaction!;
-        const repoStore = transaction.objectStore(STORES.REPOS);
+        const repoStore = upgradeTransaction.objectStore(STORES.REPOS);
 
         // Add indexed field index if it doesn't exist
         if (!repoStore.indexNames.contains('indexed')) {
@@ -60,12 +129,18 @@ export function initDB(): Promise<IDBDatabase> {
         if (!repoStore.indexNames.contains('last_contributed_at')) {
           repoStore.createIndex('last_contributed_at', 'last_contributed_at', { unique: false });
         }
+
+        // Relax full_name uniqueness (same owner/name on different hosts)
+        if (repoStore.index('full_name').unique) {
+          repoStore.deleteIndex('full_name');
+          repoStore.createIndex('full_name', 'full_name', { unique: false });
+        }
       }
 
       // Create issues store
       if (!db.objectStoreNames.contains(STORES.ISSUES)) {
-        const issueStore = db.createObjectStore(STORES.ISSUES, { keyPath: 'id' });
-        issueStore.createIndex('repo_id', 'repo_id', { unique: false });
+        const issueStore = db.createObjectStore(STORES.ISSUES, { keyPath: 'key' });
+        issueStore.createIndex('repo_key', 'repo_key', { unique: false });
         issueStore.createIndex('state', 'state', { unique: false });
         issueStore.createIndex('updated_at', 'updated_at', { unique: false });
         issueStore.createIndex('last_fetched_at', 'last_fetched_at', { unique: false });
@@ -74,22 +149,254 @@ export function initDB(): Promise<IDBDatabase> {
 
       // Create pull_requests store
       if (!db.objectStoreNames.contains(STORES.PULL_REQUESTS)) {
-        const prStore = db.createObjectStore(STORES.PULL_REQUESTS, { keyPath: 'id' });
-        prStore.createIndex('repo_id', 'repo_id', { unique: false });
+        const prStore = db.createObjectStore(STORES.PULL_REQUESTS, { keyPath: 'key' });
+        prStore.createIndex('repo_key', 'repo_key', { unique: false });
         prStore.createIndex('state', 'state', { unique: false });
         prStore.createIndex('updated_at', 'updated_at', { unique: false });
         prStore.createIndex('last_fetched_at', 'last_fetched_at', { unique: false });
         prStore.createIndex('last_visited_at', 'last_visited_at', { unique: false });
       }
 
+      // Create discussions store
+      if (!db.objectStoreNames.contains(STORES.DISCUSSIONS)) {
+        const discussionStore = db.createObjectStore(STORES.DISCUSSIONS, { keyPath: 'key' });
+        discussionStore.createIndex('repo_key', 'repo_key', { unique: false });
+        discussionStore.createIndex('state', 'state', { unique: false });
+        discussionStore.createIndex('updated_at', 'updated_at', { unique: false });
+        discussionStore.createIndex('last_fetched_at', 'last_fetched_at', { unique: false });
+        discussionStore.createIndex('last_visited_at', 'last_visited_at', { unique: false });
+      }
+
+      // Create releases store (keyed by repo + tag, so bare tags fit too)
+      if (!db.objectStoreNames.contains(STORES.RELEASES)) {
+        const releaseStore = db.createObjectStore(STORES.RELEASES, { keyPath: 'key' });
+        releaseStore.createIndex('repo_key', 'repo_key', { unique: false });
+        releaseStore.createIndex('published_at', 'published_at', { unique: false });
+        releaseStore.createIndex('last_visited_at', 'last_visited_at', { unique: false });
+      }
+
+      // Create milestones store
+      if (!db.objectStoreNames.contains(STORES.MILESTONES)) {
+        const milestoneStore = db.createObjectStore(STORES.MILESTONES, { keyPath: 'key' });
+        milestoneStore.createIndex('repo_key', 'repo_key', { unique: false });
+      }
+
+      // Create workflow runs store
+      if (!db.objectStoreNames.contains(STORES.WORKFLOW_RUNS)) {
+        const runStore = db.createObjectStore(STORES.WORKFLOW_RUNS, { keyPath: 'key' });
+        runStore.createIndex('repo_key', 'repo_key', { unique: false });
+        runStore.createIndex('head_branch', 'head_branch', { unique: false });
+        runStore.createIndex('updated_at', 'updated_at', { unique: false });
+        runStore.createIndex('last_visited_at', 'last_visited_at', { unique: false });
+      }
+
+      // Create gists store (not tied to a repo: keyed by host and the gist's hash ID)
+      if (!db.objectStoreNames.contains(STORES.GISTS)) {
+        const gistStore = db.createObjectStore(STORES.GISTS, { keyPath: 'key' });
+        gistStore.createIndex('account', 'account', { unique: false });
+        gistStore.createIndex('updated_at', 'updated_at', { unique: false });
+        gistStore.createIndex('last_visited_at', 'last_visited_at', { unique: false });
+      }
+
+      // Create projects store (org-level Projects v2, keyed by host and GraphQL node ID)
+      if (!db.objectStoreNames.contains(STORES.PROJECTS)) {
+        const projectStore = db.createObjectStore(STORES.PROJECTS, { keyPath: 'key' });
+        projectStore.createIndex('account', 'account', { unique: false });
+        projectStore.createIndex('updated_at', 'updated_at', { unique: false });
+      }
+
+      // Create notifications store (unread threads per account, keyed by host and thread ID)
+      if (!db.objectStoreNames.contains(STORES.NOTIFICATIONS)) {
+        const notificationStore = db.createObjectStore(STORES.NOTIFICATIONS, { keyPath: 'key' });
+        notificationStore.createIndex('account', 'account', { unique: false });
+        notificationStore.createIndex('updated_at', 'updated_at', { unique: false });
+      }
+
+      // Create branches store (keyed by repo + branch name)
+      if (!db.objectStoreNames.contains(STORES.BRANCHES)) {
+        const branchStore = db.createObjectStore(STORES.BRANCHES, { keyPath: 'key' });
+        branchStore.createIndex('repo_key', 'repo_key', { unique: false });
+      }
+
+      // Create file_trees store (keyed by repo and commit SHA, so a listing stays valid until the
+      // branch moves)
+      if (!db.objectStoreNames.contains(STORES.FILE_TREES)) {
+        const treeStore = db.createObjectStore(STORES.FILE_TREES, { keyPath: 'key' });
+        treeStore.createIndex('repo_key', 'repo_key', { unique: false });
+      }
+
+      // Create search_documents store (full-text search: the multi-entry tokens index maps words to
+      // issues/PRs)
+      if (!db.objectStoreNames.contains(STORES.SEARCH_DOCUMENTS)) {
+        const documentStore = db.createObjectStore(STORES.SEARCH_DOCUMENTS, { keyPath: 'id' });
+        documentStore.createIndex('repo_key', 'repo_key', { unique: false });
+        documentStore.createIndex('tokens', 'tokens', { unique: false, multiEntry: true });
+      }
+
       // Create meta store
       if (!db.objectStoreNames.contains(STORES.META)) {
         db.createObjectStore(STORES.META, { keyPath: 'key' });
       }
+
+      // Create http_cache store
+      if (!db.objectStoreNames.contains(STORES.HTTP_CACHE)) {
+        const cacheStore = db.createObjectStore(STORES.HTTP_CACHE, { keyPath: 'url' });
+        cacheStore.createIndex('cached_at', 'cached_at', { unique: false });
+      }
+
+      // Create sync_runs store (sync history)
+      if (!db.objectStoreNames.contains(STORES.SYNC_RUNS)) {
+        const runStore = db.createObjectStore(STORES.SYNC_RUNS, { keyPath: 'id' });
+        runStore.createIndex('kind', 'kind', { unique: false });
+      }
+
+      if (legacyStores.length > 0) {
+        copyLegacyRecords(db, upgradeTransaction, legacyStores);
+      }
+    };
+  });
+}
+
+/**
+ * Rename the stores keyed by GitHub IDs alone, so they can be created again with the new keys
+ * @returns Names of the stores moved aside
+ */
+function moveAsideLegacyStores(db: IDBDatabase, transaction: IDBTransaction): string[] {
+  const moved = HOST_KEYED_STORES.filter((storeName) => db.objectStoreNames.contains(storeName));
+  for (const storeName of moved) {
+    transaction.objectStore(storeName).name = `${storeName}${LEGACY_STORE_SUFFIX}`;
+  }
+  return moved;
+}
+
+/**
+ * Copy the records of the moved-aside stores into the new ones, then drop the old stores
+ * Repos go first: the records of other stores take their host from their repo.
+ */
+function copyLegacyRecords(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  storeNames: string[],
+): void {
+  const hostByRepoId = new Map<number, string | undefined>();
+
+  const copyStore = (storeName: string, onCopied?: (records: LegacyRecord[]) => void) => {
+    const legacyName = `${storeName}${LEGACY_STORE_SUFFIX}`;
+    const request = transaction.objectStore(legacyName).getAll();
+    request.onsuccess = () => {
+      const records = request.result as LegacyRecord[];
+      const store = transaction.objectStore(storeName);
+      for (const record of records) {
+        store.put(toHostKeyedRecord(storeName, record, hostByRepoId));
+      }
+      db.deleteObjectStore(legacyName);
+      onCopied?.(records);
     };
+  };
+
+  const copyOthers = () => {
+    for (const storeName of storeNames.filter((name) => name !== STORES.REPOS)) {
+      copyStore(storeName);
+    }
+    migrateLegacyMeta(transaction, hostByRepoId);
+  };
+
+  if (!storeNames.includes(STORES.REPOS)) {
+    copyOthers();
+    return;
+  }
+
+  copyStore(STORES.REPOS, (repos) => {
+    for (const repo of repos) {
+      hostByRepoId.set(repo.id as number, repo.host);
+    }
+    copyOthers();
   });
 }
 
+/**
+ * A legacy record with its host-qualified key (and its repo's key, for records of a repo)
+ */
+function toHostKeyedRecord(
+  storeName: string,
+  record: LegacyRecord,
+  hostByRepoId: Map<number, string | undefined>,
+): LegacyRecord {
+  // Repos, gists, projects and notifications carry their own host
+  if (record.repo_id === undefined) {
+    const { pr_id: prId, issue_id: issueId, ...rest } = record;
+    return {
+      ...rest,
+      key: recordKey(record.host, record.id!),
+      ...(prId !== undefined && { pr_key: recordKey(record.host, prId) }),
+      ...(issueId !== undefined && { issue_key: recordKey(record.host, issueId) }),
+    };
+  }
+
+  const { repo_id: repoId, ...rest } = record;
+  const host = hostByRepoId.get(repoId);
+  const repoKey = recordKey(host, repoId);
+  switch (storeName) {
+    case STORES.RELEASES:
+      return { ...rest, repo_key: repoKey, key: `${repoKey}/${record.tag_name as string}` };
+    case STORES.BRANCHES:
+      return { ...rest, repo_key: repoKey, key: `${repoKey}/${record.name as string}` };
+    case STORES.FILE_TREES:
+      return { ...rest, repo_key: repoKey, key: `${repoKey}@${record.sha as string}` };
+    case STORES.SEARCH_DOCUMENTS: {
+      // "issue-<id>" / "pr-<id>"
+      const id = String(record.id);
+      const separator = id.indexOf('-');
+      return {
+        ...rest,
+        repo_key: repoKey,
+        id: `${id.slice(0, separator)}-${recordKey(host, id.slice(separator + 1))}`,
+      };
+    }
+    default:
+      return { ...rest, repo_key: repoKey, key: recordKey(host, record.id!) };
+  }
+}
+
+/**
+ * Move the import engine's per-repo meta state to the repo keys
+ * Issue sync cursors are kept; cached branch timestamps and an interrupted import's checkpoint
+ * (both by repo ID) are dropped and rebuilt by the next sync.
+ */
+function migrateLegacyMeta(
+  transaction: IDBTransaction,
+  hostByRepoId: Map<number, string | undefined>,
+): void {
+  const meta = transaction.objectStore(STORES.META);
+  const forEachWithPrefix = (prefix: string, visit: (cursor: IDBCursorWithValue) => void) => {
+    const request = meta.openCursor(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+
+      // Keys written here fall in the range too: only visit the ones by repo ID
+      if (/^\d+$/.test(String(cursor.key).slice(prefix.length))) {
+        visit(cursor);
+      }
+      cursor.continue();
+    };
+  };
+
+  const cursorPrefix = 'issue_sync_cursor:';
+  forEachWithPrefix(cursorPrefix, (cursor) => {
+    const repoId = Number(String(cursor.key).slice(cursorPrefix.length));
+    const { value } = cursor.value as MetaRecord;
+    if (value) {
+      meta.put({ key: `${cursorPrefix}${recordKey(hostByRepoId.get(repoId), repoId)}`, value });
+    }
+    cursor.delete();
+  });
+  forEachWithPrefix('branches_fetched_at:', (cursor) => {
+    cursor.delete();
+  });
+  meta.delete('import_checkpoint');
+}
+
 /**
  * Generic helper to get all records from a store
  */
@@ -168,6 +475,24 @@ export async function deleteFromStore(storeName: string, key: IDBValidKey): Prom
   });
 }
 
+/**
+ * Generic helper to delete multiple records from a store
+ */
+export async function deleteManyFromStore(storeName: string, keys: IDBValidKey[]): Promise<void> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+
+    for (const key of keys) {
+      store.delete(key);
+    }
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
 /**
  * Generic helper to clear all records from a store
  */
@@ -189,13 +514,24 @@ export async function getAllRepos(): Promise<RepoRecord[]> {
   return getAllFromStore<RepoRecord>(STORES.REPOS);
 }
 
-export async function getRepo(id: number): Promise<RepoRecord | undefined> {
-  return getFromStore<RepoRecord>(STORES.REPOS, id);
+export async function getRepo(key: string): Promise<RepoRecord | undefined> {
+  return getFromStore<RepoRecord>(STORES.REPOS, key);
 }
 
-export async function getRepoByName(fullName: string): Promise<RepoRecord | undefined> {
+/**
+ * Find a repo by full name, optionally on a specific enterprise host
+ * Without a host, github.com repos are preferred over enterprise repos with the same name
+ */
+export async function getRepoByName(
+  fullName: string,
+  host?: string,
+): Promise<RepoRecord | undefined> {
   const allRepos = await getAllRepos();
-  return allRepos.find((r) => r.full_name === fullName);
+  const matches = allRepos.filter((r) => r.full_name === fullName);
+  if (host) {
+    return matches.find((r) => r.host === host);
+  }
+  return matches.find((r) => !r.host) ?? matches[0];
 }
 
 export async function saveRepo(repo: RepoRecord): Promise<void> {
@@ -206,13 +542,86 @@ export async function saveRepos(repos: RepoRecord[]): Promise<void> {
   return putManyInStore(STORES.REPOS, repos);
 }
 
+/**
+ * Delete repos together with everything stored for them (issues, PRs, discussions, ...)
+ * @returns Number of child records deleted along with the repos
+ */
+export async function deleteRepos(repoKeys: string[]): Promise<{
+  issues: number;
+  pullRequests: number;
+  discussions: number;
+  releases: number;
+  milestones: number;
+  workflowRuns: number;
+  branches: number;
+  fileTrees: number;
+  searchDocuments: number;
+}> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(
+      [
+        STORES.REPOS,
+        STORES.ISSUES,
+        STORES.PULL_REQUESTS,
+        STORES.DISCUSSIONS,
+        STORES.RELEASES,
+        STORES.MILESTONES,
+        STORES.WORKFLOW_RUNS,
+        STORES.BRANCHES,
+        STORES.FILE_TREES,
+        STORES.SEARCH_DOCUMENTS,
+      ],
+      'readwrite',
+    );
+    const removed = {
+      issues: 0,
+      pullRequests: 0,
+      discussions: 0,
+      releases: 0,
+      milestones: 0,
+      workflowRuns: 0,
+      branches: 0,
+      fileTrees: 0,
+      searchDocuments: 0,
+    };
+
+    const deleteChildren = (storeName: string, repoKey: string, counter: keyof typeof removed) => {
+      const store = transaction.objectStore(storeName);
+      const request = store.index('repo_key').getAllKeys(repoKey);
+      request.onsuccess = () => {
+        for (const key of request.result) {
+          store.delete(key);
+        }
+        removed[counter] += request.result.length;
+      };
+    };
+
+    for (const repoKey of repoKeys) {
+      transaction.objectStore(STORES.REPOS).delete(repoKey);
+      deleteChildren(STORES.ISSUES, repoKey, 'issues');
+      deleteChildren(STORES.PULL_REQUESTS, repoKey, 'pullRequests');
+      deleteChildren(STORES.DISCUSSIONS, repoKey, 'discussions');
+      deleteChildren(STORES.RELEASES, repoKey, 'releases');
+      deleteChildren(STORES.MILESTONES, repoKey, 'milestones');
+      deleteChildren(STORES.WORKFLOW_RUNS, repoKey, 'workflowRuns');
+      deleteChildren(STORES.BRANCHES, repoKey, 'branches');
+      deleteChildren(STORES.FILE_TREES, repoKey, 'fileTrees');
+      deleteChildren(STORES.SEARCH_DOCUMENTS, repoKey, 'searchDocuments');
+    }
+
+    transaction.oncomplete = () => resolve(removed);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
 /**
  * Set repo as manually indexed (user clicked + button)
  */
-export async function setRepoIndexed(repoId: number, indexed: boolean): Promise<void> {
-  const repo = await getRepo(repoId);
+export async function setRepoIndexed(repoKey: string, indexed: boolean): Promise<void> {
+  const repo = await getRepo(repoKey);
   if (!repo) {
-    throw new Error(`Repo ${repoId} not found`);
+    throw new Error(`Repo ${repoKey} not found`);
   }
 
   const updatedRepo: RepoRecord = {
@@ -231,10 +640,11 @@ export interface CategorizedOrganizations {
   myOrgs: string[]; // Personal account + orgs from /user/orgs API (admin or member)
   contributingOrgs: string[]; // External orgs where you have direct repos (not fork parents)
   forkSourceOrgs: string[]; // External orgs where you ONLY have fork parent repos
+  starredOrgs: string[]; // External orgs where you ONLY have starred repos
 }
 
 /**
- * Get unique organizations from all repos, categorized into 3 groups
+ * Get unique organizations from all repos, categorized into 4 groups
  * @param myOrgsFromAPI - Orgs from /user/orgs API + personal account (known "my" orgs)
  */
 export async function getUniqueOrganizations(
@@ -261,6 +671,7 @@ export async function getUniqueOrganizations(
   const myOrgs: string[] = [];
   const contributingOrgs: string[] = [];
   const forkSourceOrgs: string[] = [];
+  const starredOrgs: string[] = [];
 
   // Categorize each organization
   for (const [org, orgRepos] of orgRepoMap.entries()) {
@@ -270,15 +681,18 @@ export async function getUniqueOrganizations(
       continue;
     }
 
-    // For external orgs, check if they have non-fork-parent repos
-    const hasNonForkParentRepos = orgRepos.some((repo) => !repo.is_parent_of_my_fork);
+    // For external orgs, check if they have direct repos (neither fork parents nor starred)
+    const hasDirectRepos = orgRepos.some((repo) => !repo.is_parent_of_my_fork && !repo.is_starred);
 
-    if (hasNonForkParentRepos) {
+    if (hasDirectRepos) {
       // Has direct repos - contributing to this org
       contributingOrgs.push(org);
-    } else {
-      // Only fork parents - just a fork source
+    } else if (orgRepos.some((repo) => repo.is_parent_of_my_fork)) {
+      // Fork parents (maybe starred too) - a fork source
       forkSourceOrgs.push(org);
+    } else {
+      // Only starred repos
+      starredOrgs.push(org);
     }
   }
 
@@ -293,6 +707,7 @@ export async function getUniqueOrganizations(
     myOrgs: myOrgs.sort(),
     contributingOrgs: contributingOrgs.sort(),
     forkSourceOrgs: forkSourceOrgs.sort(),
+    starredOrgs: starredOrgs.sort(),
   };
 }
 
@@ -302,13 +717,17 @@ export async function getAllIssues(): Promise<IssueRecord[]> {
   return getAllFromStore<IssueRecord>(STORES.ISSUES);
 }
 
-export async function getIssuesByRepo(repoId: number): Promise<IssueRecord[]> {
+export async function getIssueByKey(key: string): Promise<IssueRecord | undefined> {
+  return getFromStore<IssueRecord>(STORES.ISSUES, key);
+}
+
+export async function getIssuesByRepo(repoKey: string): Promise<IssueRecord[]> {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORES.ISSUES, 'readonly');
     const store = transaction.objectStore(STORES.ISSUES);
-    const index = store.index('repo_id');
-    const request = index.getAll(repoId);
+    const index = store.index('repo_key');
+    const request = index.getAll(repoKey);
 
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
@@ -323,19 +742,27 @@ export async function saveIssues(issues: IssueRecord[]): Promise<void> {
   return putManyInStore(STORES.ISSUES, issues);
 }
 
+export async function deleteIssues(keys: string[]): Promise<void> {
+  return deleteManyFromStore(STORES.ISSUES, keys);
+}
+
 // ==================== PR-specific helpers ====================
 
 export async function getAllPullRequests(): Promise<PullRequestRecord[]> {
   return getAllFromStore<PullRequestRecord>(STORES.PULL_REQUESTS);
 }
 
-export async function getPullRequestsByRepo(repoId: number): Promise<PullRequestRecord[]> {
+export async function getPullRequestByKey(key: string): Promise<PullRequestRecord | undefined> {
+  return getFromStore<PullRequestRecord>(STORES.PULL_REQUESTS, key);
+}
+
+export async function getPullRequestsByRepo(repoKey: string): Promise<PullRequestRecord[]> {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORES.PULL_REQUESTS, 'readonly');
     const store = transaction.objectStore(STORES.PULL_REQUESTS);
-    const index = store.index('repo_id');
-    const request = index.getAll(repoId);
+    const index = store.index('repo_key');
+    const request = index.getAll(repoKey);
 
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
@@ -350,16 +777,290 @@ export async function savePullRequests(prs: PullRequestRecord[]): Promise<void>
   return putManyInStore(STORES.PULL_REQUESTS, prs);
 }
 
+// ==================== Discussion-specific helpers ====================
+
+export async function getAllDiscussions(): Promise<DiscussionRecord[]> {
+  return getAllFromStore<DiscussionRecord>(STORES.DISCUSSIONS);
+}
+
+export async function getDiscussionsByRepo(repoKey: string): Promise<DiscussionRecord[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES.DISCUSSIONS, 'readonly');
+    const store = transaction.objectStore(STORES.DISCUSSIONS);
+    const index = store.index('repo_key');
+    const request = index.getAll(repoKey);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveDiscussions(discussions: DiscussionRecord[]): Promise<void> {
+  return putManyInStore(STORES.DISCUSSIONS, discussions);
+}
+
+// ==================== Release-specific helpers ====================
+
+export async function getReleasesByRepo(repoKey: string): Promise<ReleaseRecord[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES.RELEASES, 'readonly');
+    const store = transaction.objectStore(STORES.RELEASES);
+    const index = store.index('repo_key');
+    const request = index.getAll(repoKey);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveReleases(releases: ReleaseRecord[]): Promise<void> {
+  return putManyInStore(STORES.RELEASES, releases);
+}
+
+export async function deleteReleases(keys: string[]): Promise<void> {
+  return deleteManyFromStore(STORES.RELEASES, keys);
+}
+
+// ==================== Workflow run-specific helpers ====================
+
+export async function getWorkflowRunsByRepo(repoKey: string): Promise<WorkflowRunRecord[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES.WORKFLOW_RUNS, 'readonly');
+    const store = transaction.objectStore(STORES.WORKFLOW_RUNS);
+    const index = store.index('repo_key');
+    const request = index.getAll(repoKey);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveWorkflowRuns(runs: WorkflowRunRecord[]): Promise<void> {
+  return putManyInStore(STORES.WORKFLOW_RUNS, runs);
+}
+
+export async function deleteWorkflowRuns(keys: string[]): Promise<void> {
+  return deleteManyFromStore(STORES.WORKFLOW_RUNS, keys);
+}
+
+// ==================== Project-specific helpers ====================
+
+export async function getAllProjects(): Promise<ProjectRecord[]> {
+  return getAllFromStore<ProjectRecord>(STORES.PROJECTS);
+}
+
+export async function getProject(key: string): Promise<ProjectRecord | undefined> {
+  return getFromStore<ProjectRecord>(STORES.PROJECTS, key);
+}
+
+export async function saveProjects(projects: ProjectRecord[]): Promise<void> {
+  return putManyInStore(STORES.PROJECTS, projects);
+}
+
+export async function deleteProjects(keys: string[]): Promise<void> {
+  return deleteManyFromStore(STORES.PROJECTS, keys);
+}
+
+// ==================== Milestone-specific helpers ====================
+
+export async function getMilestonesByRepo(repoKey: string): Promise<MilestoneRecord[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES.MILESTONES, 'readonly');
+    const store = transaction.objectStore(STORES.MILESTONES);
+    const index = store.index('repo_key');
+    const request = index.getAll(repoKey);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveMilestones(milestones: MilestoneRecord[]): Promise<void> {
+  return putManyInStore(STORES.MILESTONES, milestones);
+}
+
+export async function deleteMilestones(keys: string[]): Promise<void> {
+  return deleteManyFromStore(STORES.MILESTONES, keys);
+}
+
+// ==================== Branch-specific helpers ====================
+
+export async function getBranchesByRepo(repoKey: string): Promise<BranchRecord[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES.BRANCHES, 'readonly');
+    const store = transaction.objectStore(STORES.BRANCHES);
+    const index = store.index('repo_key');
+    const request = index.getAll(repoKey);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveBranches(branches: BranchRecord[]): Promise<void> {
+  return putManyInStore(STORES.BRANCHES, branches);
+}
+
+export async function deleteBranches(keys: string[]): Promise<void> {
+  return deleteManyFromStore(STORES.BRANCHES, keys);
+}
+
+// ==================== File tree-specific helpers ====================
+
+export async function getFileTree(key: string): Promise<FileTreeRecord | undefined> {
+  return getFromStore<FileTreeRecord>(STORES.FILE_TREES, key);
+}
+
+export async function getFileTreesByRepo(repoKey: string): Promise<FileTreeRecord[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES.FILE_TREES, 'readonly');
+    const store = transaction.objectStore(STORES.FILE_TREES);
+    const index = store.index('repo_key');
+    const request = index.getAll(repoKey);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveFileTree(tree: FileTreeRecord): Promise<void> {
+  return putInStore(STORES.FILE_TREES, tree);
+}
+
+export async function deleteFileTrees(keys: string[]): Promise<void> {
+  return deleteManyFromStore(STORES.FILE_TREES, keys);
+}
+
+// ==================== Full-text search helpers ====================
+
+export async function getSearchDocumentsByRepo(repoKey: string): Promise<SearchDocumentRecord[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES.SEARCH_DOCUMENTS, 'readonly');
+    const store = transaction.objectStore(STORES.SEARCH_DOCUMENTS);
+    const index = store.index('repo_key');
+    const request = index.getAll(repoKey);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getSearchDocuments(ids: string[]): Promise<SearchDocumentRecord[]> {
+  const documents = await Promise.all(
+    ids.map((id) => getFromStore<SearchDocumentRecord>(STORES.SEARCH_DOCUMENTS, id)),
+  );
+  return documents.filter((document): document is SearchDocumentRecord => !!document);
+}
+
+/**
+ * Look a word up in the inverted index
+ * @param prefix Also match longer words starting with it (for the word being typed)
+ * @returns IDs of the matching documents
+ */
+export async function findSearchDocumentIds(token: string, prefix = false): Promise<string[]> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES.SEARCH_DOCUMENTS, 'readonly');
+    const index = transaction.objectStore(STORES.SEARCH_DOCUMENTS).index('tokens');
+    const range = prefix ? IDBKeyRange.bound(token, `${token}\uffff`) : IDBKeyRange.only(token);
+    const request = index.getAllKeys(range);
+
+    // A document matches a prefix once per word starting with it
+    request.onsuccess = () => resolve([...new Set(request.result as string[])]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveSearchDocuments(documents: SearchDocumentRecord[]): Promise<void> {
+  return putManyInStore(STORES.SEARCH_DOCUMENTS, documents);
+}
+
+export async function deleteSearchDocuments(ids: string[]): Promise<void> {
+  return deleteManyFromStore(STORES.SEARCH_DOCUMENTS, ids);
+}
+
+// ==================== Gist-specific helpers ====================
+
+export async function getAllGists(): Promise<GistRecord[]> {
+  return getAllFromStore<GistRecord>(STORES.GISTS);
+}
+
+export async function saveGists(gists: GistRecord[]): Promise<void> {
+  return putManyInStore(STORES.GISTS, gists);
+}
+
+export async function deleteGists(keys: string[]): Promise<void> {
+  return deleteManyFromStore(STORES.GISTS, keys);
+}
+
+// ==================== Notification-specific helpers ====================
+
+export async function getAllNotifications(): Promise<NotificationRecord[]> {
+  return getAllFromStore<NotificationRecord>(STORES.NOTIFICATIONS);
+}
+
+export async function getNotification(key: string): Promise<NotificationRecord | undefined> {
+  return getFromStore<NotificationRecord>(STORES.NOTIFICATIONS, key);
+}
+
+export async function saveNotifications(notifications: NotificationRecord[]): Promise<void> {
+  return putManyInStore(STORES.NOTIFICATIONS, notifications);
+}
+
+export async function deleteNotifications(keys: string[]): Promise<void> {
+  return deleteManyFromStore(STORES.NOTIFICATIONS, keys);
+}
+
 // ==================== Visit tracking helpers ====================
 
-export async function recordVisit(type: 'repo' | 'issue' | 'pr', entityId: number): Promise<void> {
+export async function recordVisit(
+  type: 'repo' | 'issue' | 'pr' | 'discussion' | 'release' | 'workflow_run' | 'gist',
+  entityKey: string, // "<host>:<id>"; releases are keyed by "<repo_key>/<tag_name>"
+): Promise<void> {
   const now = Date.now();
 
   // Update the entity record directly for SPEED
+  if (type === 'gist') {
+    const gist = await getFromStore<GistRecord>(STORES.GISTS, entityKey);
+    if (!gist) {
+      return;
+    }
+
+    await putInStore(STORES.GISTS, {
+      ...gist,
+      visit_count: (gist.visit_count || 0) + 1,
+      last_visited_at: now,
+      first_visited_at: gist.first_visited_at || now,
+    });
+    return;
+  }
+
+  if (type === 'release') {
+    const release = await getFromStore<ReleaseRecord>(STORES.RELEASES, entityKey);
+    if (!release) {
+      return;
+    }
+
+    await putInStore(STORES.RELEASES, {
+      ...release,
+      visit_count: (release.visit_count || 0) + 1,
+      last_visited_at: now,
+      first_visited_at: release.first_visited_at || now,
+    });
+    return;
+  }
+
   if (type === 'repo') {
-    const repo = await getRepo(entityId);
+    const repo = await getRepo(entityKey);
     if (!repo) {
-      console.warn(`[recordVisit] Repo with ID ${entityId} not found in database`);
+      console.warn(`[recordVisit] Repo ${entityKey} not found in database`);
       return;
     }
 
@@ -377,7 +1078,7 @@ export async function recordVisit(type: 'repo' | 'issue' | 'pr', entityId: numbe
   }
 
   if (type === 'issue') {
-    const issue = await getFromStore<IssueRecord>(STORES.ISSUES, entityId);
+    const issue = await getFromStore<IssueRecord>(STORES.ISSUES, entityKey);
     if (!issue) {
       return;
     }
@@ -392,7 +1093,7 @@ export async function recordVisit(type: 'repo' | 'issue' | 'pr', entityId: numbe
   }
 
   if (type === 'pr') {
-    const pr = await getFromStore<PullRequestRecord>(STORES.PULL_REQUESTS, entityId);
+    const pr = await getFromStore<PullRequestRecord>(STORES.PULL_REQUESTS, entityKey);
     if (!pr) {
       return;
     }
@@ -403,6 +1104,36 @@ export async function recordVisit(type: 'repo' | 'issue' | 'pr', entityId: numbe
       last_visited_at: now,
       first_visited_at: pr.first_visited_at || now,
     });
+    return;
+  }
+
+  if (type === 'discussion') {
+    const discussion = await getFromStore<DiscussionRecord>(STORES.DISCUSSIONS, entityKey);
+    if (!discussion) {
+      return;
+    }
+
+    await putInStore(STORES.DISCUSSIONS, {
+      ...discussion,
+      visit_count: (discussion.visit_count || 0) + 1,
+      last_visited_at: now,
+      first_visited_at: discussion.first_visited_at || now,
+    });
+    return;
+  }
+
+  if (type === 'workflow_run') {
+    const run = await getFromStore<WorkflowRunRecord>(STORES.WORKFLOW_RUNS, entityKey);
+    if (!run) {
+      return;
+    }
+
+    await putInStore(STORES.WORKFLOW_RUNS, {
+      ...run,
+      visit_count: (run.visit_count || 0) + 1,
+      last_visited_at: now,
+      first_visited_at: run.first_visited_at || now,
+    });
   }
 }
 
@@ -416,3 +1147,76 @@ export async function getMeta(key: string): Promise<unknown> {
 export async function setMeta(key: string, value: unknown): Promise<void> {
   return putInStore(STORES.META, { key, value });
 }
+
+export async function deleteMeta(keys: string[]): Promise<void> {
+  return deleteManyFromStore(STORES.META, keys);
+}
+
+// ==================== HTTP cache helpers ====================
+
+export async function getHttpCacheEntry(url: string): Promise<HttpCacheRecord | undefined> {
+  return getFromStore<HttpCacheRecord>(STORES.HTTP_CACHE, url);
+}
+
+export async function saveHttpCacheEntry(entry: HttpCacheRecord): Promise<void> {
+  return putInStore(STORES.HTTP_CACHE, entry);
+}
+
+/**
+ * Delete cached responses that haven't been refreshed for a while
+ * Returns the number of deleted entries
+ */
+export async function pruneHttpCache(maxAgeMs: number): Promise<number> {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORES.HTTP_CACHE, 'readwrite');
+    const index = transaction.objectStore(STORES.HTTP_CACHE).index('cached_at');
+    const request = index.openCursor(IDBKeyRange.upperBound(Date.now() - maxAgeMs));
+    let deleted = 0;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        deleted++;
+        cursor.continue();
+      }
+    };
+
+    transaction.oncomplete = () => resolve(deleted);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// ==================== Sync history helpers ====================
+
+/**
+ * All recorded sync runs, newest first
+ */
+export async function getSyncRuns(): Promise<SyncRunRecord[]> {
+  const runs = await getAllFromStore<SyncRunRecord>(STORES.SYNC_RUNS);
+  return runs.sort((a, b) => b.started_at - a.started_at);
+}
+
+/**
+ * Record a sync run, dropping the oldest runs of its kind beyond the limit
+ */
+export async function saveSyncRun(run: SyncRunRecord, limitPerKind: number): Promise<void> {
+  await putInStore(STORES.SYNC_RUNS, run);
+
+  const db = await initDB();
+  const runsOfKind = await new Promise<SyncRunRecord[]>((resolve, reject) => {
+    const transaction = db.transaction(STORES.SYNC_RUNS, 'readonly');
+    const index = transaction.objectStore(STORES.SYNC_RUNS).index('kind');
+    const request = index.getAll(run.kind);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const staleIds = runsOfKind
+    .sort((a, b) => b.started_at - a.started_at)
+    .slice(limitPerKind)
+    .map((staleRun) => staleRun.id);
+  await deleteManyFromStore(STORES.SYNC_RUNS, staleIds);
+}
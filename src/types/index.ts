@@ -149,6 +149,246 @@ export interface GitHubPullRequest {
   updated_at: string;
   closed_at: string | null;
   author_association: string;
+  // Not in the REST payload: GraphQL returns them with the PR, REST needs extra requests
+  review_decision?: PullRequestReviewDecision | null; // null when no review is required
+  latest_reviews?: PullRequestReview[]; // Latest review of each reviewer
+  checks_state?: PullRequestChecksState | null; // Combined statuses + check runs of head.sha
+}
+
+export type PullRequestReviewDecision = 'approved' | 'changes_requested' | 'review_required';
+
+export type PullRequestChecksState = 'success' | 'failure' | 'pending';
+
+/**
+ * Latest review of a reviewer on a pull request
+ */
+export interface PullRequestReview {
+  user: {
+    login: string;
+    avatar_url: string;
+  };
+  state: 'approved' | 'changes_requested' | 'commented' | 'dismissed';
+  submitted_at: string | null;
+}
+
+/**
+ * GitHub Discussion (REST webhook shape; listed via GraphQL since REST has no list endpoint)
+ */
+export interface GitHubDiscussion {
+  id: number;
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'open' | 'closed';
+  state_reason: string | null;
+  html_url: string;
+  user: {
+    login: string;
+    avatar_url: string;
+  };
+  category: {
+    name: string;
+    emoji: string; // Shortcode, e.g. ":bulb:"
+    is_answerable: boolean;
+  };
+  answer_chosen_at: string | null; // Set when an answer was marked (Q&A categories)
+  locked: boolean;
+  comments: number;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  author_association: string;
+}
+
+/**
+ * GitHub Release from API
+ */
+export interface GitHubRelease {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  html_url: string;
+  draft: boolean;
+  prerelease: boolean;
+  author: {
+    login: string;
+    avatar_url: string;
+  } | null;
+  created_at: string;
+  published_at: string | null;
+}
+
+/**
+ * GitHub Milestone from API
+ */
+export interface GitHubMilestone {
+  id: number;
+  number: number;
+  title: string;
+  description: string | null;
+  state: 'open' | 'closed';
+  html_url: string;
+  open_issues: number; // Open issues and PRs
+  closed_issues: number; // Closed issues and PRs
+  due_on: string | null;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+}
+
+/**
+ * GitHub Tag from API
+ */
+export interface GitHubTag {
+  name: string;
+  commit: {
+    sha: string;
+  };
+}
+
+/**
+ * GitHub Actions workflow run from API
+ */
+export interface GitHubWorkflowRun {
+  id: number;
+  name: string | null; // Workflow name (e.g. "CI")
+  workflow_id: number;
+  display_title: string; // Commit message or PR title that triggered the run
+  run_number: number;
+  event: string; // "push", "pull_request", ...
+  status: string | null; // "queued", "in_progress", "completed", ...
+  conclusion: string | null; // "success", "failure", "cancelled", ... (null until completed)
+  head_branch: string | null;
+  head_sha: string;
+  html_url: string;
+  actor: {
+    login: string;
+    avatar_url: string;
+  } | null;
+  pull_requests: Array<{
+    number: number;
+  }>; // Only PRs from the same repo (empty for fork PRs)
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * GitHub Gist from API
+ */
+export interface GitHubGist {
+  id: string; // Hex hash, e.g. "aa5a315d61ae9438b18d"
+  html_url: string;
+  description: string | null;
+  public: boolean;
+  owner: {
+    login: string;
+    avatar_url: string;
+  } | null;
+  files: Record<
+    string,
+    {
+      filename: string;
+      language: string | null;
+      size: number;
+    }
+  >;
+  comments: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * GitHub notification thread from API (/notifications)
+ */
+export interface GitHubNotification {
+  id: string; // Thread ID
+  unread: boolean;
+  reason: string; // review_requested, mention, assign, author, comment, subscribed...
+  updated_at: string;
+  last_read_at: string | null;
+  subject: {
+    title: string;
+    url: string | null; // API URL of the subject, e.g. .../repos/owner/repo/pulls/42
+    latest_comment_url: string | null;
+    type: string; // PullRequest, Issue, Discussion, Release, CheckSuite...
+  };
+  repository: {
+    id: number;
+    full_name: string;
+    html_url: string;
+  };
+}
+
+/**
+ * GitHub Branch from API
+ */
+export interface GitHubBranch {
+  name: string;
+  commit: {
+    sha: string;
+  };
+  protected: boolean;
+}
+
+/**
+ * GitHub issue comment from API (PRs are issues here too: this covers their conversation)
+ */
+export interface GitHubIssueComment {
+  id: number;
+  body: string | null;
+  issue_url: string; // API URL of the issue/PR, ends with its number
+  user: {
+    login: string;
+  } | null;
+  updated_at: string;
+}
+
+/**
+ * GitHub Project (v2) from GraphQL (there is no REST endpoint; mapped onto REST-style names)
+ */
+export interface GitHubProject {
+  id: string; // GraphQL node ID (globally unique)
+  number: number;
+  title: string;
+  short_description: string | null;
+  html_url: string;
+  closed: boolean;
+  owner: {
+    login: string;
+  };
+  items: GitHubProjectItem[];
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+}
+
+/**
+ * Item of a GitHub Project (v2): an issue, a pull request or a draft issue
+ */
+export interface GitHubProjectItem {
+  id: string; // GraphQL node ID of the item (not of its content)
+  type: 'issue' | 'pull_request' | 'draft_issue';
+  content_id: number | null; // Database ID of the issue/PR (matches IssueRecord.id / PullRequestRecord.id)
+  number: number | null; // Issue/PR number (null for drafts)
+  title: string;
+  html_url: string | null; // Null for drafts (they only exist inside the project)
+  state: 'open' | 'closed';
+  merged: boolean;
+  repo_full_name: string | null;
+  status: string | null; // Value of the project's "Status" field, e.g. "In Progress"
+}
+
+/**
+ * Git tree from API (fetched recursively)
+ */
+export interface GitHubTree {
+  sha: string;
+  tree: Array<{
+    path: string;
+    type: 'blob' | 'tree' | 'commit'; // File, directory or submodule
+    size?: number; // Only set for blobs
+  }>;
+  truncated: boolean; // True when GitHub cut the listing short (very large repos)
 }
 
 // ==================== IndexedDB Record Types ====================
@@ -157,10 +397,15 @@ export interface GitHubPullRequest {
  * Repository stored in IndexedDB
  */
 export interface RepoRecord extends GitHubRepo {
+  key: string; // Primary key: "<host>:<id>" (GitHub ids are only unique per host)
+
   // Internal tracking
   last_fetched_at: number; // Timestamp when we last synced this repo
+  host?: string; // Web host of the GitHub Enterprise Server instance (unset for github.com)
+  accounts?: string[]; // Logins of the signed-in accounts that can see this repo
   is_parent_of_my_fork?: boolean; // True when this repo is the upstream of a personal fork
   prs_only_my_involvement?: boolean; // Only sync PRs where I'm involved (author/assignee/reviewer)
+  is_starred?: boolean; // True when this repo was imported only because the user starred it
 
   // Visit tracking (for ranking/sorting)
   visit_count?: number; // Total number of visits
@@ -180,7 +425,9 @@ export interface RepoRecord extends GitHubRepo {
  * Issue stored in IndexedDB
  */
 export interface IssueRecord extends GitHubIssue {
-  repo_id: number; // Foreign key to repos
+  key: string; // Primary key: "<host>:<id>" (GitHub ids are only unique per host)
+  repo_key: string; // Foreign key to repos
+  account?: string; // Login of the account this issue was imported with
 
   // Internal tracking
   last_fetched_at: number;
@@ -195,7 +442,26 @@ export interface IssueRecord extends GitHubIssue {
  * Pull Request stored in IndexedDB
  */
 export interface PullRequestRecord extends GitHubPullRequest {
-  repo_id: number; // Foreign key to repos
+  key: string; // Primary key: "<host>:<id>" (GitHub ids are only unique per host)
+  repo_key: string; // Foreign key to repos
+  account?: string; // Login of the account this PR was imported with
+
+  // Internal tracking
+  last_fetched_at: number;
+
+  // Visit tracking (for ranking/sorting)
+  visit_count?: number;
+  last_visited_at?: number;
+  first_visited_at?: number;
+}
+
+/**
+ * Discussion stored in IndexedDB
+ */
+export interface DiscussionRecord extends GitHubDiscussion {
+  key: string; // Primary key: "<host>:<id>" (GitHub ids are only unique per host)
+  repo_key: string; // Foreign key to repos
+  account?: string; // Login of the account this discussion was imported with
 
   // Internal tracking
   last_fetched_at: number;
@@ -206,6 +472,192 @@ export interface PullRequestRecord extends GitHubPullRequest {
   first_visited_at?: number;
 }
 
+/**
+ * Release stored in IndexedDB
+ * Bare tags (no release) are stored too when tag import is enabled: id 0, no name or author
+ */
+export interface ReleaseRecord extends GitHubRelease {
+  key: string; // Primary key: "<repo_key>/<tag_name>" (a release and its tag share one record)
+  repo_key: string; // Foreign key to repos
+  account?: string; // Login of the account this release was imported with
+  is_tag_only?: boolean; // A tag without a release (opens the tag page)
+
+  // Internal tracking
+  last_fetched_at: number;
+
+  // Visit tracking (for ranking/sorting)
+  visit_count?: number;
+  last_visited_at?: number;
+  first_visited_at?: number;
+}
+
+/**
+ * Milestone stored in IndexedDB
+ * Its issues and PRs are not stored separately: they carry the milestone's number
+ */
+export interface MilestoneRecord extends GitHubMilestone {
+  key: string; // Primary key: "<host>:<id>" (GitHub ids are only unique per host)
+  repo_key: string; // Foreign key to repos
+  account?: string; // Login of the account this milestone was imported with
+
+  // Internal tracking
+  last_fetched_at: number;
+}
+
+/**
+ * Workflow run stored in IndexedDB
+ */
+export interface WorkflowRunRecord extends GitHubWorkflowRun {
+  key: string; // Primary key: "<host>:<id>" (GitHub ids are only unique per host)
+  repo_key: string; // Foreign key to repos
+  account?: string; // Login of the account this run was imported with
+
+  // Internal tracking
+  last_fetched_at: number;
+
+  // Visit tracking (for ranking/sorting)
+  visit_count?: number;
+  last_visited_at?: number;
+  first_visited_at?: number;
+}
+
+/**
+ * Branch stored in IndexedDB (fetched lazily when a repo is opened in focused mode)
+ */
+export interface BranchRecord extends GitHubBranch {
+  key: string; // Primary key: "<repo_key>/<name>"
+  repo_key: string; // Foreign key to repos
+  last_fetched_at: number;
+}
+
+/**
+ * Project (v2) stored in IndexedDB, with its items inline
+ */
+export interface ProjectRecord extends GitHubProject {
+  key: string; // Primary key: "<host>:<id>" (GitHub ids are only unique per host)
+  host?: string; // Web host of the GitHub Enterprise Server instance (unset for github.com)
+  account?: string; // Login of the account this project was imported with
+
+  // Internal tracking
+  last_fetched_at: number;
+}
+
+/**
+ * File listing of a repo's default branch, stored in IndexedDB (fetched lazily for the file finder)
+ */
+export interface FileTreeRecord {
+  key: string; // Primary key: "<repo_key>@<sha>"
+  sha: string; // Commit SHA the listing belongs to
+  repo_key: string; // Foreign key to repos
+  paths: string[]; // File paths (blobs only)
+  truncated: boolean;
+  fetched_at: number;
+}
+
+/**
+ * Issue/PR text for full-text search, stored in IndexedDB
+ * The multi-entry index on tokens is the inverted index: token → documents
+ */
+export interface SearchDocumentRecord {
+  id: string; // Primary key: "issue-<key>" or "pr-<key>", same as the search result ID
+  repo_key: string; // Foreign key to repos
+  tokens: string[]; // Unique lowercased words of the text
+  text: string; // Body and recent comments (truncated), for snippets
+  indexed_at: number;
+}
+
+/**
+ * Notification thread stored in IndexedDB
+ */
+export interface NotificationRecord extends GitHubNotification {
+  key: string; // Primary key: "<host>:<id>" (GitHub ids are only unique per host)
+  host?: string; // Web host of the GitHub Enterprise Server instance (unset for github.com)
+  account?: string; // Login of the account this thread belongs to
+  html_url: string; // Web page of the subject (or of its repo when the subject has none)
+  subject_number?: number; // Issue/PR number, parsed from subject.url
+  pr_key?: string; // Matching PR record, when the PR is indexed
+  issue_key?: string; // Matching issue record, when the issue is indexed
+  marked_read_at?: number; // Marked as read from the palette (a cached listing may still say unread)
+
+  // Internal tracking
+  last_fetched_at: number;
+}
+
+/**
+ * Gist stored in IndexedDB
+ */
+export interface GistRecord extends GitHubGist {
+  key: string; // Primary key: "<host>:<id>" (GitHub ids are only unique per host)
+  host?: string; // Web host of the GitHub Enterprise Server instance (unset for github.com)
+  account?: string; // Login of the account this gist was imported with
+
+  // Internal tracking
+  last_fetched_at: number;
+
+  // Visit tracking (for ranking/sorting)
+  visit_count?: number;
+  last_visited_at?: number;
+  first_visited_at?: number;
+}
+
+/**
+ * Cached GitHub API response, used for conditional requests (ETag / Last-Modified)
+ */
+export interface HttpCacheRecord {
+  url: string; // Primary key (full request URL, suffixed with #login for additional accounts)
+  etag: string | null;
+  last_modified: string | null;
+  link: string | null; // Link header, needed to keep pagination working on cache hits
+  body: string;
+  cached_at: number; // Timestamp of the last full (200) response or 304 revalidation
+}
+
+/**
+ * What started a sync run
+ */
+export type SyncRunTrigger = 'startup' | 'scheduled' | 'manual' | 'token_saved' | 'browsing';
+
+/**
+ * One full import, single-repo sync or quick-check, kept in the sync history
+ */
+export interface SyncRunRecord {
+  id: string; // Primary key ("<kind>-<started_at>")
+  kind: 'full_import' | 'single_repo' | 'quick_check';
+  trigger: SyncRunTrigger;
+  started_at: number;
+  ended_at: number;
+  outcome: 'completed' | 'failed' | 'cancelled';
+  error: string | null;
+  resumed: boolean; // Continued an interrupted import from its checkpoint
+  repos: string[]; // Full names of the repos synced
+  added: number; // Records that weren't in the index yet
+  updated: number; // Records saved again
+  removed: number;
+  api_calls: number;
+  cached_responses: number; // 304 Not Modified responses (served from the HTTP cache)
+  rate_limit_used: number; // Rate limit points consumed, REST and GraphQL together
+  repo_errors: SyncRunRepoError[];
+}
+
+export interface SyncRunRepoError {
+  repo: string;
+  error: string;
+}
+
+/**
+ * Counters of a sync run in progress, shared by its request contexts
+ */
+export interface SyncRunStats {
+  apiCalls: number;
+  cachedResponses: number;
+  rateLimitUsed: number;
+  added: number;
+  updated: number;
+  removed: number;
+  repos: Set<string>;
+  repoErrors: SyncRunRepoError[];
+}
+
 /**
  * Metadata for sync state
  */
@@ -0,0 +1,95 @@
+/**
+ * Full-text search over issue and PR bodies (and recent comments)
+ * Documents are tokenized into IndexedDB, where the multi-entry tokens index serves as the
+ * inverted index; this module builds those documents and runs queries against them.
+ */
+
+import { findSearchDocumentIds, getSearchDocuments } from '@/src/storage/db';
+import type { SearchDocumentRecord } from '@/src/types';
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 40; // Longer "words" are hashes, base64 and the like
+const MAX_TOKENS_PER_DOCUMENT = 5000;
+const MAX_STORED_TEXT_LENGTH = 10000; // Only kept for snippets; tokens cover the whole text
+const MIN_QUERY_LENGTH = 3; // Shorter queries match half the index
+const MAX_MATCHES = 100;
+const SNIPPET_LENGTH = 120;
+const SNIPPET_LEAD = 40; // Characters shown before the match
+
+/**
+ * Split text into unique lowercased words, in order of first appearance
+ */
+export function tokenizeText(text: string): string[] {
+  const tokens = new Set<string>();
+  for (const [word] of text.toLowerCase().matchAll(/[\p{L}\p{N}_]+/gu)) {
+    if (word.length < MIN_TOKEN_LENGTH || word.length > MAX_TOKEN_LENGTH) continue;
+
+    tokens.add(word);
+    if (tokens.size >= MAX_TOKENS_PER_DOCUMENT) break;
+  }
+  return [...tokens];
+}
+
+/**
+ * Build the search document of an issue or PR from its body and comments
+ * @param id Search result ID of the issue/PR ("issue-<key>" or "pr-<key>")
+ */
+export function buildSearchDocument(
+  id: string,
+  repoKey: string,
+  body: string | null,
+  comments: string[] = [],
+): SearchDocumentRecord {
+  const text = [body ?? '', ...comments].filter(Boolean).join('\n\n');
+  return {
+    id,
+    repo_key: repoKey,
+    tokens: tokenizeText(text),
+    text: text.slice(0, MAX_STORED_TEXT_LENGTH),
+    indexed_at: Date.now(),
+  };
+}
+
+/**
+ * Cut the part of a text around the first occurrence of any query word, whitespace collapsed
+ */
+export function buildSnippet(text: string, queryTokens: string[]): string {
+  const lowerText = text.toLowerCase();
+  const positions = queryTokens
+    .map((token) => lowerText.indexOf(token))
+    .filter((position) => position >= 0);
+  const start = positions.length > 0 ? Math.max(0, Math.min(...positions) - SNIPPET_LEAD) : 0;
+  const end = start + SNIPPET_LENGTH;
+
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Find the issues/PRs whose text contains every word of the query
+ * The last word may be incomplete (still being typed), so it matches as a prefix.
+ * @returns Snippets by search result ID
+ */
+export async function searchFullText(query: string): Promise<Map<string, string>> {
+  const matches = new Map<string, string>();
+  const queryTokens = tokenizeText(query);
+  if (query.trim().length < MIN_QUERY_LENGTH || queryTokens.length === 0) {
+    return matches;
+  }
+
+  const idLists = await Promise.all(
+    queryTokens.map((token, index) =>
+      findSearchDocumentIds(token, index === queryTokens.length - 1),
+    ),
+  );
+  const [firstIds, ...otherIds] = idLists.sort((a, b) => a.length - b.length);
+  const otherIdSets = otherIds.map((ids) => new Set(ids));
+  const matchingIds = firstIds
+    .filter((id) => otherIdSets.every((ids) => ids.has(id)))
+    .slice(0, MAX_MATCHES);
+
+  for (const document of await getSearchDocuments(matchingIds)) {
+    matches.set(document.id, buildSnippet(document.text, queryTokens));
+  }
+  return matches;
+}
@@ -0,0 +1,43 @@
+/**
+ * Bounded worker pool for running async tasks over many items
+ * Keeps per-item work (e.g. syncing a repo) from starting all at once; the requests themselves
+ * are bounded separately by the GitHub API request queue.
+ */
+
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Run a task for every item, at most `concurrency` at a time, starting them in item order
+ * Like Promise.all it rejects with the first error, but only once the running tasks have
+ * settled, and no new items start after it.
+ * @returns Task results in item order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  task: (item: T, index: number) => Promise<R>,
+  concurrency = DEFAULT_CONCURRENCY,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, worker);
+  const outcomes = await Promise.allSettled(workers);
+  const rejected = outcomes.find((outcome) => outcome.status === 'rejected');
+  if (rejected) {
+    throw rejected.reason;
+  }
+  return results;
+}
@@ -0,0 +1,14 @@
+/**
+ * Store keys of GitHub entities
+ * GitHub IDs are only unique per host: an enterprise instance reuses the IDs of github.com
+ */
+
+const DEFAULT_HOST = 'github.com'; // Same as the API client's DEFAULT_WEB_HOST
+
+/**
+ * Store key of a GitHub entity ("<host>:<id>")
+ * @param host Web host of the enterprise instance (github.com when omitted)
+ */
+export function recordKey(host: string | undefined, id: number | string): string {
+  return `${host ?? DEFAULT_HOST}:${id}`;
+}
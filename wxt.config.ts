@@ -6,7 +6,7 @@ export default defineConfig({
   manifest: {
     name: 'GitHub Look-Around',
     description: 'Lightning-fast Github Command Palette to repos, PRs, and issues',
-    permissions: ['storage'],
+    permissions: ['storage', 'alarms'],
     commands: {
       'toggle-overlay': {
         suggested_key: {